@@ -0,0 +1,460 @@
+import {Point, cross, dot, magnitude, ptEq, vec} from './geometry';
+import {overlappingPairs} from './spatial';
+
+/*
+ * Polygon boolean operations (union, intersection, difference, xor).
+ *
+ * All the operations go through the same overlay:
+ *  1. Every ring of every operand is broken into edges, with coordinates snapped to a fine grid.
+ *  2. Edges are split wherever they cross or touch another edge (including collinear overlaps and
+ *     vertices lying on another edge), so that afterwards edges only meet at their endpoints.
+ *  3. Identical edges are merged, keeping a count per operand of how many times (and in which direction)
+ *     that operand's rings go along the edge.
+ *  4. For each edge the winding number of every operand is computed on its left side (by casting a horizontal
+ *     ray from the edge's midpoint, against the edges in its band), the right side follows from the edge's own counts.
+ *     The edge is part of the result iff the result's predicate differs between the two sides.
+ *  5. The result edges are directed so that the inside is on their left, and chained into rings.
+ *     Rings touching themselves are split at the shared vertex.
+ *  6. Positively oriented rings are outer rings, negatively oriented ones are holes - every hole is
+ *     assigned to the smallest outer ring containing it.
+ *
+ * Orientation: a ring with positive signed area (clockwise on the screen, where y points down) is an
+ * outer ring, a negative one is a hole.
+ */
+
+export interface Polygon {
+    outer: Point[];
+    holes: Point[][];
+}
+
+export type FillRule = 'nonzero' | 'evenodd' | 'positive';
+
+interface Operand {
+    rings: Point[][];
+    fillRule: FillRule;
+}
+
+interface Vertex {
+    key: string;
+    p: Point;
+}
+
+interface RawEdge {
+    a: Point;
+    b: Point;
+    operand: number;
+    splits: Point[];
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+interface Edge {
+    from: Vertex;
+    to: Vertex;
+    counts: number[]; //net number of times each operand's rings go from -> to along the edge
+}
+
+interface Bands {
+    minY: number;
+    height: number;
+    edges: Edge[][]; //from the top one down
+}
+
+interface DirectedEdge {
+    from: Vertex;
+    to: Vertex;
+    used: boolean;
+}
+
+const snapPrecision = 1e7; //coordinates are rounded to 1e-7
+const tolerance = 1e-6; //points closer than this to an edge are considered to be on it
+
+export function ringArea(ring: Point[]): number {
+    let sum = 0;
+    for (let i = 0; i < ring.length; ++i) {
+        const p0 = ring[i], p1 = ring[(i + 1) % ring.length];
+        sum += p0.x * p1.y - p1.x * p0.y;
+    }
+    return sum / 2;
+}
+
+function oriented(ring: Point[], positive: boolean) {
+    return (ringArea(ring) >= 0) === positive ? ring : [...ring].reverse();
+}
+
+// Makes a polygon out of an outer ring and holes, in any winding order
+export function polygon(outer: Point[], holes: Point[][] = []): Polygon {
+    return { outer: oriented(outer, true), holes: holes.map(h => oriented(h, false)) };
+}
+
+export function polygonRings(p: Polygon): Point[][] {
+    return [p.outer, ...p.holes];
+}
+
+export function union(...polygonSets: Polygon[][]): Polygon[] {
+    return overlay(polygonSets.map(toOperand), inside => inside.some(x => x));
+}
+
+export function intersection(subject: Polygon[], clip: Polygon[]): Polygon[] {
+    return overlay([toOperand(subject), toOperand(clip)], ([a, b]) => a && b);
+}
+
+export function difference(subject: Polygon[], clip: Polygon[]): Polygon[] {
+    return overlay([toOperand(subject), toOperand(clip)], ([a, b]) => a && !b);
+}
+
+export function xor(subject: Polygon[], clip: Polygon[]): Polygon[] {
+    return overlay([toOperand(subject), toOperand(clip)], ([a, b]) => a !== b);
+}
+
+// Resolves overlapping and self-intersecting rings into simple polygons, according to the fill rule
+export function fillRings(rings: Point[][], fillRule: FillRule = 'nonzero'): Polygon[] {
+    return overlay([{ rings, fillRule }], ([a]) => a);
+}
+
+export function windingNumber(ring: Point[], p: Point): number {
+    let wn = 0;
+    for (let i = 0; i < ring.length; ++i) {
+        wn += crossing(ring[i], ring[(i + 1) % ring.length], p);
+    }
+    return wn;
+}
+
+export function pointInPolygon(poly: Polygon, p: Point): boolean {
+    return polygonRings(poly).reduce((wn, ring) => wn + windingNumber(ring, p), 0) !== 0;
+}
+
+function toOperand(polygons: Polygon[]): Operand {
+    return {
+        rings: polygons.flatMap(p => [oriented(p.outer, true), ...p.holes.map(h => oriented(h, false))]),
+        fillRule: 'nonzero'
+    };
+}
+
+function isFilled(winding: number, fillRule: FillRule) {
+    switch (fillRule) {
+        case 'nonzero':
+            return winding !== 0;
+        case 'evenodd':
+            return winding % 2 !== 0;
+        case 'positive':
+            return winding > 0;
+    }
+}
+
+// +1/-1 if the edge p0 -> p1 crosses the ray going from p in the +x direction upwards/downwards, 0 otherwise
+// (half-open on y, so that rays going through vertices are counted once)
+function crossing(p0: Point, p1: Point, p: Point): number {
+    if (p0.y <= p.y) {
+        if (p1.y > p.y && cross(vec(p0, p1), vec(p0, p)) > 0) {
+            return 1;
+        }
+    } else if (p1.y <= p.y && cross(vec(p0, p1), vec(p0, p)) < 0) {
+        return -1;
+    }
+    return 0;
+}
+
+function snap(p: Point): Point {
+    return { x: Math.round(p.x * snapPrecision) / snapPrecision, y: Math.round(p.y * snapPrecision) / snapPrecision };
+}
+
+function keyOf(p: Point) {
+    return p.x + ',' + p.y;
+}
+
+function collectEdges(operands: Operand[]): RawEdge[] {
+    const edges: RawEdge[] = [];
+    operands.forEach((operand, k) => {
+        for (const ring of operand.rings) {
+            const snapped = ring.map(snap);
+            for (let i = 0; i < snapped.length; ++i) {
+                const a = snapped[i], b = snapped[(i + 1) % snapped.length];
+                if (ptEq(a, b)) {
+                    continue;
+                }
+                edges.push({
+                    a, b, operand: k, splits: [],
+                    minX: Math.min(a.x, b.x), maxX: Math.max(a.x, b.x),
+                    minY: Math.min(a.y, b.y), maxY: Math.max(a.y, b.y)
+                });
+            }
+        }
+    });
+    return edges;
+}
+
+// Returns whether p lies on the edge a-b, excluding its endpoints
+function onSegment(p: Point, a: Point, b: Point) {
+    const ab = vec(a, b), ap = vec(a, p), lengthSq = dot(ab, ab);
+    const t = dot(ap, ab) / lengthSq;
+    if (t <= 0 || t >= 1 || ptEq(p, a) || ptEq(p, b)) {
+        return false;
+    }
+    return Math.abs(cross(ab, ap)) / Math.sqrt(lengthSq) <= tolerance;
+}
+
+function addIntersections(e1: RawEdge, e2: RawEdge) {
+    let touching = false;
+    for (const p of [e2.a, e2.b]) {
+        if (onSegment(p, e1.a, e1.b)) {
+            e1.splits.push(p);
+            touching = true;
+        }
+    }
+    for (const p of [e1.a, e1.b]) {
+        if (onSegment(p, e2.a, e2.b)) {
+            e2.splits.push(p);
+            touching = true;
+        }
+    }
+    if (touching) {
+        return;
+    }
+
+    const r = vec(e1.a, e1.b), s = vec(e2.a, e2.b);
+    const d1 = cross(r, vec(e1.a, e2.a)), d2 = cross(r, vec(e1.a, e2.b)),
+        d3 = cross(s, vec(e2.a, e1.a)), d4 = cross(s, vec(e2.a, e1.b));
+    const opposite = (x: number, y: number) => (x > 0 && y < 0) || (x < 0 && y > 0);
+    if (opposite(d1, d2) && opposite(d3, d4)) {
+        const t = d3 / (d3 - d4);
+        const p = snap({ x: e1.a.x + r.x * t, y: e1.a.y + r.y * t });
+        e1.splits.push(p);
+        e2.splits.push(p);
+    }
+}
+
+function splitEdges(edges: RawEdge[]) {
+    const bounds = (e: RawEdge) => ({ x: e.minX, y: e.minY, width: e.maxX - e.minX, height: e.maxY - e.minY });
+    for (const [e1, e2] of overlappingPairs(edges, bounds, tolerance)) {
+        addIntersections(e1, e2);
+    }
+}
+
+function mergeEdges(edges: RawEdge[], operandCount: number): Edge[] {
+    const vertices = new Map<string, Vertex>(), merged = new Map<string, Edge>();
+    const vertexAt = (p: Point) => {
+        const key = keyOf(p);
+        let v = vertices.get(key);
+        if (v == null) {
+            vertices.set(key, v = { key, p });
+        }
+        return v;
+    };
+
+    for (const e of edges) {
+        const ab = vec(e.a, e.b);
+        const pts = [e.a, ...e.splits.map(snap), e.b]
+            .map(p => ({ p, t: dot(vec(e.a, p), ab) }))
+            .sort((p1, p2) => p1.t - p2.t)
+            .map(x => x.p);
+        for (let i = 0; i < pts.length - 1; ++i) {
+            const from = vertexAt(pts[i]), to = vertexAt(pts[i + 1]);
+            if (from === to) {
+                continue;
+            }
+            const forward = from.key < to.key, key = forward ? from.key + '|' + to.key : to.key + '|' + from.key;
+            let edge = merged.get(key);
+            if (edge == null) {
+                edge = forward ? { from, to, counts: new Array(operandCount).fill(0) } :
+                    { from: to, to: from, counts: new Array(operandCount).fill(0) };
+                merged.set(key, edge);
+            }
+            edge.counts[e.operand] += forward ? 1 : -1;
+        }
+    }
+    return [...merged.values()].filter(e => e.counts.some(c => c !== 0));
+}
+
+// The non-horizontal edges grouped into horizontal bands by the y range they span, so that a horizontal ray
+// only needs to be checked against the edges of its band
+function bands(edges: Edge[]): Bands {
+    const spanning = edges.filter(e => e.from.p.y !== e.to.p.y);
+    if (spanning.length === 0) {
+        return { minY: 0, height: 1, edges: [[]] };
+    }
+    const minY = spanning.reduce((y, e) => Math.min(y, e.from.p.y, e.to.p.y), Infinity),
+        maxY = spanning.reduce((y, e) => Math.max(y, e.from.p.y, e.to.p.y), -Infinity);
+    //lower than an average edge, so that few of the edges in a band end above or below the rays through it,
+    //but not so low that the tall edges end up in too many bands
+    const averageHeight = spanning.reduce((sum, e) => sum + Math.abs(e.to.p.y - e.from.p.y), 0) / spanning.length;
+    const height = Math.max(averageHeight, (maxY - minY) / spanning.length, 4e-9) / 4;
+    const result: Bands = { minY, height, edges: Array.from({ length: Math.floor((maxY - minY) / height) + 1 }, () => []) };
+    for (const e of spanning) {
+        const from = bandOf(result, Math.min(e.from.p.y, e.to.p.y)), to = bandOf(result, Math.max(e.from.p.y, e.to.p.y));
+        for (let i = from; i <= to; ++i) {
+            result.edges[i].push(e);
+        }
+    }
+    return result;
+}
+
+function bandOf(bands: Bands, y: number) {
+    return Math.min(Math.max(Math.floor((y - bands.minY) / bands.height), 0), bands.edges.length - 1);
+}
+
+// Winding numbers of all operands just left of the edge. A ray from the edge's midpoint in the +x direction gives
+// the windings on the +x side of the edge - or, the way crossing() counts the vertices on the ray, on its +y side
+// when it's horizontal. The other side differs by the edge's own counts
+function leftWindings(edge: Edge, bands: Bands, operandCount: number): number[] {
+    const a = edge.from.p, b = edge.to.p;
+    const m = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const windings = new Array(operandCount).fill(0);
+    for (const other of bands.edges[bandOf(bands, m.y)]) {
+        const c = crossing(other.from.p, other.to.p, m);
+        if (c !== 0 && other !== edge) {
+            for (let k = 0; k < operandCount; ++k) {
+                windings[k] += c * other.counts[k];
+            }
+        }
+    }
+    //the +x side is on the left of the edges going in the -y direction, the +y side - of the ones going in the +x one
+    const rayOnLeft = a.y !== b.y ? b.y < a.y : b.x > a.x;
+    return rayOnLeft ? windings : windings.map((w, k) => w + edge.counts[k]);
+}
+
+function resultEdges(edges: Edge[], operands: Operand[], predicate: (inside: boolean[]) => boolean): DirectedEdge[] {
+    const result: DirectedEdge[] = [];
+    const filled = (windings: number[]) => predicate(windings.map((w, k) => isFilled(w, operands[k].fillRule)));
+    const edgeBands = bands(edges);
+    for (const edge of edges) {
+        const left = leftWindings(edge, edgeBands, operands.length),
+            right = left.map((w, k) => w - edge.counts[k]);
+        const insideLeft = filled(left), insideRight = filled(right);
+        if (insideLeft !== insideRight) {
+            result.push(insideLeft ? { from: edge.from, to: edge.to, used: false } :
+                { from: edge.to, to: edge.from, used: false });
+        }
+    }
+    return result;
+}
+
+function traceRings(edges: DirectedEdge[]): Vertex[][] {
+    const outgoing = new Map<string, DirectedEdge[]>();
+    for (const e of edges) {
+        const list = outgoing.get(e.from.key) || [];
+        list.push(e);
+        outgoing.set(e.from.key, list);
+    }
+    const sorted = [...edges].sort((e1, e2) =>
+        e1.from.key < e2.from.key ? -1 : e1.from.key > e2.from.key ? 1 : e1.to.key < e2.to.key ? -1 : 1);
+
+    const rings: Vertex[][] = [];
+    for (const start of sorted) {
+        if (start.used) {
+            continue;
+        }
+        const ring: Vertex[] = [];
+        let current = start, closed = false;
+        while (true) {
+            current.used = true;
+            ring.push(current.from);
+            const incoming = vec(current.from.p, current.to.p);
+            const candidates = (outgoing.get(current.to.key) || []).filter(e => !e.used || e === start);
+            if (candidates.length === 0) {
+                break; //shouldn't happen with consistent input, drop the partial ring
+            }
+            //take the leftmost turn, rings touching themselves get split afterwards
+            const turn = (e: DirectedEdge) => {
+                const v = vec(e.from.p, e.to.p);
+                return Math.atan2(cross(incoming, v), dot(incoming, v));
+            };
+            const next = candidates.reduce((best, e) => turn(e) > turn(best) ? e : best);
+            if (next === start) {
+                closed = true;
+                break;
+            }
+            current = next;
+        }
+        if (closed) {
+            rings.push(...splitAtRepeatedVertices(ring));
+        }
+    }
+    return rings;
+}
+
+function splitAtRepeatedVertices(ring: Vertex[]): Vertex[][] {
+    const result: Vertex[][] = [], path: Vertex[] = [], indices = new Map<string, number>();
+    for (const v of ring) {
+        const existing = indices.get(v.key);
+        if (existing != null) {
+            const loop = path.splice(existing);
+            loop.forEach(l => indices.delete(l.key));
+            result.push(loop);
+        }
+        indices.set(v.key, path.length);
+        path.push(v);
+    }
+    result.push(path);
+    return result;
+}
+
+// Removes vertices on a straight line between their neighbours, as well as spikes
+function removeCollinear(ring: Point[]): Point[] {
+    let pts = ring, changed = true;
+    while (changed && pts.length >= 3) {
+        changed = false;
+        const kept: Point[] = [];
+        for (let i = 0; i < pts.length; ++i) {
+            const prev = kept.length > 0 ? kept[kept.length - 1] : pts[pts.length - 1], p = pts[i], next = pts[(i + 1) % pts.length];
+            const span = magnitude(vec(prev, next));
+            if (Math.abs(cross(vec(prev, p), vec(p, next))) <= tolerance * Math.max(span, tolerance)) {
+                changed = true;
+                continue;
+            }
+            kept.push(p);
+        }
+        pts = kept;
+    }
+    return pts;
+}
+
+// Start each ring at its lowest-left vertex, so that the output doesn't depend on the order of the input
+function normalizeStart(ring: Point[]): Point[] {
+    let start = 0;
+    for (let i = 1; i < ring.length; ++i) {
+        const p = ring[i], s = ring[start];
+        if (p.x < s.x || (p.x === s.x && p.y < s.y)) {
+            start = i;
+        }
+    }
+    return [...ring.slice(start), ...ring.slice(0, start)];
+}
+
+function assemble(rings: Point[][]): Polygon[] {
+    const outers: { ring: Point[], area: number, holes: Point[][] }[] = [], holes: Point[][] = [];
+    for (const ring of rings) {
+        const area = ringArea(ring);
+        if (area > 0) {
+            outers.push({ ring, area, holes: [] });
+        } else if (area < 0) {
+            holes.push(ring);
+        }
+    }
+    outers.sort((o1, o2) => o1.area - o2.area);
+    for (const hole of holes) {
+        //a point just inside the hole - the hole's inside is on the right of its edges
+        const p0 = hole[0], p1 = hole[1], d = vec(p0, p1), len = magnitude(d);
+        const probe = { x: (p0.x + p1.x) / 2 + d.y / len * tolerance * 10, y: (p0.y + p1.y) / 2 - d.x / len * tolerance * 10 };
+        const container = outers.find(o => windingNumber(o.ring, probe) !== 0);
+        if (container != null) {
+            container.holes.push(hole);
+        }
+    }
+    return outers
+        .map(o => ({ outer: o.ring, holes: o.holes }))
+        .sort((p1, p2) => p1.outer[0].x - p2.outer[0].x || p1.outer[0].y - p2.outer[0].y);
+}
+
+function overlay(operands: Operand[], predicate: (inside: boolean[]) => boolean): Polygon[] {
+    const raw = collectEdges(operands);
+    splitEdges(raw);
+    const edges = mergeEdges(raw, operands.length);
+    const rings = traceRings(resultEdges(edges, operands, predicate))
+        .map(ring => removeCollinear(ring.map(v => v.p)))
+        .filter(ring => ring.length >= 3 && Math.abs(ringArea(ring)) > tolerance * tolerance)
+        .map(normalizeStart);
+    return assemble(rings);
+}
@@ -0,0 +1,175 @@
+import {Point, addCollinearPoints, applyDiffs, distanceSq, hasSelfIntersectingParts, reorderClockwise} from './geometry';
+import {Curve, CurveStyle, CurveType, curvePoints, flattenCurve} from './curves';
+import {Polygon, polygon, union} from './boolean';
+import {JoinType, offset} from './offset';
+import {validDiffs} from './handles';
+
+// Outward pointsets are plateaus with contours growing out of them,
+// inward ones are footprints with contours shrinking towards a summit
+export type ContourDirection = 'outward' | 'inward';
+
+export interface Pointset {
+    id?: string; //how the editor refers to it, e.g. in the undo history
+    points: Point[];
+    controlPointDiffs: Point[]; //overrides of the curve's control points, see handles.ts
+    contourDirection?: ContourDirection; //outward if missing
+    elevation?: number; //ContourOptions.defaultElevation if missing, negative for depressions
+    curve?: CurveStyle; //straight lines between the points if missing
+}
+
+export interface Contour {
+    outer: Curve;
+    holes: Curve[];
+}
+
+// All the contours at one elevation. Above 0 they enclose the terrain at or above the elevation,
+// below 0 - the terrain below it (i.e. the inside of the depressions)
+export interface Layer {
+    elevation: number;
+    contours: Contour[];
+    color: number;
+}
+
+export interface ContourOptions {
+    interval: number; //elevation difference between neighbouring contours
+    spacing: number; //horizontal distance between neighbouring contours, in px
+    defaultElevation: number; //of the pointsets without their own elevation
+    colors: number[]; //from the highest contour down
+    depressionColors: number[]; //from the shallowest contour down
+    join: JoinType;
+    miterLimit: number;
+    maxSegmentLength: number; //longer segments get extra points, so the curves follow them more closely
+    smoothing: CurveType;
+}
+
+export const defaultContourOptions: ContourOptions = {
+    interval: 40,
+    spacing: 20,
+    defaultElevation: 200,
+    colors: [0xa5eb34, 0x65eb34, 0x34eb52, 0x34eb89, 0x34ebc3, 0x34ebe8],
+    depressionColors: [0x34b4eb, 0x3489eb, 0x345eeb, 0x4634eb],
+    join: 'round',
+    miterLimit: 2,
+    maxSegmentLength: 300,
+    smoothing: 'basis'
+};
+
+// The interpolated curve of a pointset without its control point overrides, starting at (the knot of) the first point,
+// so that segment i goes from point i to point i + 1. Null if the segments don't match the points like that -
+// self-intersecting pointsets get their points reordered and repeated points don't get a segment
+export function baseCurve(ps: Pointset): Curve {
+    const points = ps.points, n = points.length, style = ps.curve ?? { type: 'linear' };
+    if (n < 2 || hasSelfIntersectingParts(points)) {
+        return null;
+    }
+    const [pts, cps] = curvePoints(points, style);
+    if (pts.length !== n + 1) {
+        return null;
+    }
+    //the B-spline doesn't go through the points, its knots are weighted averages of them
+    const first = style.type === 'basis' && n > 2
+        ? { x: (points[n - 1].x + 4 * points[0].x + points[1].x) / 6, y: (points[n - 1].y + 4 * points[0].y + points[1].y) / 6 }
+        : points[0];
+    const distances = pts.slice(0, n).map(p => distanceSq(p, first)), k = distances.indexOf(Math.min(...distances));
+    return {
+        points: [...pts.slice(k, n), ...pts.slice(0, k + 1)],
+        controlPoints: [...cps.slice(2 * k), ...cps.slice(0, 2 * k)]
+    };
+}
+
+// The outline of a pointset, interpolated through its points - self-intersecting ones get their points reordered first
+export function pointsetCurve(ps: Pointset): Curve {
+    const base = baseCurve(ps);
+    if (base == null) {
+        const points = hasSelfIntersectingParts(ps.points) ? reorderClockwise(ps.points) : ps.points;
+        const [pts, cps] = curvePoints(points, ps.curve ?? 'linear');
+        return { points: pts, controlPoints: cps };
+    }
+    return { points: base.points, controlPoints: applyDiffs(base.controlPoints, validDiffs(ps.controlPointDiffs, ps.points.length)) };
+}
+
+// The polygons the contours are generated from, i.e. the flattened outlines of the pointsets
+export function basePolygons(pointsets: Pointset[]): Point[][] {
+    return pointsets.map(ps => flattenCurve(pointsetCurve(ps)));
+}
+
+export function unionMultiplePolygons(allPolys: Point[][]): Polygon[] {
+    return union(allPolys.filter(p => p.length >= 3).map(p => polygon(p)));
+}
+
+export function isInward(ps: Pointset) {
+    return ps.contourDirection === 'inward';
+}
+
+export function elevationOf(ps: Pointset, defaultElevation = defaultContourOptions.defaultElevation) {
+    return ps.elevation ?? defaultElevation;
+}
+
+function toCurve(ring: Point[], {maxSegmentLength, smoothing}: ContourOptions): Curve {
+    const withMidpoints = addCollinearPoints([...ring, ring[0]], maxSegmentLength);
+    const [pts, cps] = curvePoints(withMidpoints.slice(0, withMidpoints.length - 1), smoothing);
+    return { points: pts, controlPoints: cps };
+}
+
+function toContours(region: Polygon[], options: ContourOptions): Contour[] {
+    return region.map(p => ({
+        outer: toCurve(p.outer, options),
+        holes: p.holes.map(h => toCurve(h, options))
+    }));
+}
+
+// All the curves of the layer, outer ones and holes alike
+export function layerCurves(layer: Layer): Curve[] {
+    return layer.contours.flatMap(c => [c.outer, ...c.holes]);
+}
+
+// How far out (or in, if negative) from its polygon a pointset's contour at the given elevation is,
+// null if the pointset doesn't reach that elevation.
+// A hill's outward polygon is its plateau, an inward one is its lowest contour.
+// A depression's outward polygon is its floor, an inward one is its highest contour.
+function contourDistance(ps: Pointset, elevation: number, {interval, spacing, defaultElevation}: ContourOptions): number {
+    const top = elevationOf(ps, defaultElevation), steps = (x: number) => x / interval * spacing;
+    if (top > 0 && elevation > 0 && elevation <= top) {
+        return isInward(ps) ? -steps(elevation - interval) : steps(top - elevation);
+    } else if (top < 0 && elevation < 0 && elevation >= top) {
+        return isInward(ps) ? -steps(-interval - elevation) : steps(elevation - top);
+    }
+    return null;
+}
+
+// Pointsets in, layered curves out, the highest layer first.
+// There's a layer at every multiple of the interval between the lowest and highest pointset elevation,
+// where each pointset contributes the polygon it gets offset to at that elevation
+export function generateContours(pointsets: Pointset[], options?: Partial<ContourOptions>): Layer[] {
+    const opts = {...defaultContourOptions, ...options};
+    const {interval, colors, depressionColors, join, miterLimit, defaultElevation} = opts;
+    const polys = basePolygons(pointsets);
+    const features = pointsets
+        .map((ps, i) => ({ ps, region: unionMultiplePolygons([polys[i]]) }))
+        .filter(f => f.region.length > 0 && elevationOf(f.ps, defaultElevation) !== 0);
+    if (features.length == 0 || !(interval > 0)) {
+        return [];
+    }
+
+    const elevations = features.map(f => elevationOf(f.ps, defaultElevation));
+    const highest = Math.floor(Math.max(0, ...elevations) / interval),
+        lowest = Math.ceil(Math.min(0, ...elevations) / interval);
+    const layers: Layer[] = [];
+    for (let k = highest; k >= lowest; --k) {
+        if (k == 0) {
+            continue;
+        }
+        const elevation = k * interval;
+        const parts = features.flatMap(f => {
+            const distance = contourDistance(f.ps, elevation, opts);
+            return distance != null ? [offset(f.region, distance, {join, miterLimit})] : [];
+        });
+        const region = union(...parts);
+        if (region.length == 0) {
+            continue;
+        }
+        const color = k > 0 ? colors[(highest - k) % colors.length] : depressionColors[(-k - 1) % depressionColors.length];
+        layers.push({ elevation, contours: toContours(region, opts), color });
+    }
+    return layers;
+}
@@ -0,0 +1,204 @@
+import * as d3 from 'd3';
+import {Point, cross, last, magnitude, ptClose, ptEq, vec, vec_minus, vec_mult, vec_plus} from './geometry';
+
+export interface Curve {
+    points: Point[];
+    controlPoints: Point[];
+}
+
+interface FakeCanvasRenderingContext extends d3.Path {
+    points(): Point[];
+    controlPoints(): Point[];
+}
+
+// Records whatever d3 draws as one chain of cubic Bezier segments - every segment after the first point
+// gets two control points, so lines, quadratic curves and arcs are converted to cubic ones
+export function getFakeContext(): FakeCanvasRenderingContext {
+    let points: Point[] = [], controlPoints: Point[] = [];
+    let subpathStart: Point = null;
+
+    const cubicTo = (cp1: Point, cp2: Point, p: Point) => {
+        points.push(p);
+        controlPoints.push(cp1, cp2);
+    };
+    //a chain can't have gaps, so a new subpath gets connected to the previous one
+    const moveTo = (p: Point) => {
+        if (points.length == 0) {
+            points.push(p);
+        } else {
+            lineTo(p);
+        }
+        subpathStart = p;
+    };
+    const lineTo = (p: Point) => {
+        const from = last(points);
+        if (from == null) {
+            moveTo(p);
+        } else if (!ptClose(from, p)) {
+            const d = vec(from, p);
+            cubicTo(vec_plus(from, vec_mult(d, 1/3)), vec_plus(from, vec_mult(d, 2/3)), p);
+        }
+    };
+    //the sweep is in radians, positive is clockwise on the screen
+    const arcAround = (center: Point, radius: number, startAngle: number, sweep: number) => {
+        const at = (angle: number) => ({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+        lineTo(at(startAngle));
+        const steps = Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9), step = sweep / steps;
+        const k = 4 / 3 * Math.tan(step / 4) * radius;
+        for (let i = 0; i < steps; ++i) {
+            const a0 = startAngle + i * step, a1 = a0 + step;
+            const p0 = at(a0), p1 = at(a1);
+            cubicTo({ x: p0.x - k * Math.sin(a0), y: p0.y + k * Math.cos(a0) },
+                { x: p1.x + k * Math.sin(a1), y: p1.y - k * Math.cos(a1) }, p1);
+        }
+    };
+
+    return {
+        moveTo(x: number, y: number) {
+            moveTo({x, y});
+        },
+        lineTo(x: number, y: number) {
+            lineTo({x, y});
+        },
+        bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+            if (points.length == 0) {
+                moveTo({x: cp1x, y: cp1y});
+            }
+            cubicTo({x: cp1x, y: cp1y}, {x: cp2x, y: cp2y}, {x, y});
+        },
+        //degree elevation - the cubic control points are 2/3 of the way from the ends to the quadratic one
+        quadraticCurveTo(cpx: number, cpy: number, x: number, y: number) {
+            if (points.length == 0) {
+                moveTo({x: cpx, y: cpy});
+            }
+            const p0 = last(points), cp = {x: cpx, y: cpy}, p = {x, y};
+            cubicTo(vec_plus(p0, vec_mult(vec(p0, cp), 2/3)), vec_plus(p, vec_mult(vec(p, cp), 2/3)), p);
+        },
+        closePath() {
+            if (subpathStart != null) {
+                lineTo(subpathStart);
+            }
+        },
+        arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, anticlockwise?: boolean) {
+            const tau = 2 * Math.PI, mod = (a: number) => (a % tau + tau) % tau;
+            const sweep = anticlockwise
+                ? (startAngle - endAngle >= tau ? -tau : -mod(startAngle - endAngle))
+                : (endAngle - startAngle >= tau ? tau : mod(endAngle - startAngle));
+            arcAround({x, y}, radius, startAngle, sweep);
+        },
+        //like the canvas' arcTo - a line towards (x1, y1) and an arc tangent to it and to the line from (x1, y1) to (x2, y2)
+        arcTo(x1: number, y1: number, x2: number, y2: number, radius: number) {
+            const p1 = {x: x1, y: y1}, p0 = last(points);
+            if (p0 == null) {
+                moveTo(p1);
+                return;
+            }
+            const v0 = vec(p1, p0), v2 = vec(p1, {x: x2, y: y2});
+            const len0 = magnitude(v0), len2 = magnitude(v2), sin = cross(v0, v2);
+            if (radius == 0 || len0 == 0 || len2 == 0 || Math.abs(sin) < 1e-9 * len0 * len2) {
+                lineTo(p1);
+                return;
+            }
+            const angle = Math.acos(Math.max(-1, Math.min(1, (v0.x * v2.x + v0.y * v2.y) / (len0 * len2))));
+            const tangentDist = radius / Math.tan(angle / 2), centerDist = radius / Math.sin(angle / 2);
+            const u0 = vec_mult(v0, 1 / len0), u2 = vec_mult(v2, 1 / len2);
+            const bisector = vec_plus(u0, u2), center = vec_plus(p1, vec_mult(bisector, centerDist / magnitude(bisector)));
+            const t0 = vec_plus(p1, vec_mult(u0, tangentDist)), t2 = vec_plus(p1, vec_mult(u2, tangentDist));
+            const a0 = Math.atan2(t0.y - center.y, t0.x - center.x), sweep = (Math.PI - angle) * (sin > 0 ? -1 : 1);
+            lineTo(t0);
+            arcAround(center, radius, a0, sweep);
+            lineTo(t2);
+        },
+        rect(x: number, y: number, w: number, h: number) {
+            moveTo({x, y});
+            lineTo({x: x + w, y});
+            lineTo({x: x + w, y: y + h});
+            lineTo({x, y: y + h});
+            lineTo({x, y});
+        },
+        toString() {
+            return "";
+        },
+
+        points(): Point[] {
+            return points;
+        },
+
+        controlPoints(): Point[] {
+            return controlPoints;
+        }
+    };
+}
+
+export function usingD3Curves(points: Point[], curveFactory: d3.CurveFactory): [Point[], Point[]] {
+    const ctx = getFakeContext();
+    const generator = curveFactory(ctx);
+    generator.lineStart();
+    for (let p of points) {
+        generator.point(p.x, p.y);
+    }
+    generator.lineEnd();
+    return [ctx.points(), ctx.controlPoints()];
+}
+
+// How closed curves get interpolated through their points - the B-spline doesn't pass through them,
+// all the others do. Monotone curves don't overshoot in y, linear ones are just the polygon
+export type CurveType = 'basis' | 'cardinal' | 'catmullRom' | 'monotone' | 'linear';
+
+export interface CurveStyle {
+    type: CurveType;
+    tension?: number; //cardinal only, from 0 (Catmull-Rom like) to 1 (straight lines)
+    alpha?: number; //Catmull-Rom only, 0 is uniform, 0.5 centripetal, 1 chordal
+}
+
+export const defaultCurveTension = 0, defaultCurveAlpha = 0.5;
+
+function closedCurveFactory({type, tension, alpha}: CurveStyle): d3.CurveFactory {
+    switch (type) {
+        case 'basis':
+            return d3.curveBasisClosed;
+        case 'cardinal':
+            return d3.curveCardinalClosed.tension(tension ?? defaultCurveTension);
+        case 'catmullRom':
+            return d3.curveCatmullRomClosed.alpha(alpha ?? defaultCurveAlpha);
+        case 'monotone':
+            return d3.curveMonotoneX;
+        case 'linear':
+            return d3.curveLinearClosed;
+    }
+}
+
+export function curvePoints(points: Point[], style: CurveType | CurveStyle = 'basis'): [Point[], Point[]] {
+    const curveStyle = typeof style === 'string' ? { type: style } : style;
+    //there's no closed monotone curve in d3, so close it by going back to the first point
+    const pts = curveStyle.type === 'monotone' && points.length > 1 ? [...points, points[0]] : points;
+    return usingD3Curves(pts, closedCurveFactory(curveStyle));
+}
+
+export function bezierCurvePointAt(p0: Point, cp0: Point, cp1: Point, p1: Point, t: number): Point {
+    return vec_plus(vec_mult(p0, Math.pow(1-t, 3)),
+        vec_mult(cp0, 3*Math.pow(1-t, 2) * t),
+        vec_mult(cp1, 3*(1-t)*t*t),
+        vec_mult(p1, t*t*t));
+}
+
+// Approximates a closed curve with a polygon (without repeating the first point at the end).
+// Straight segments contribute just their end point, curved ones stepsPerSegment points
+export function flattenCurve({points, controlPoints}: Curve, stepsPerSegment = 8): Point[] {
+    const result = points.slice(0, 1);
+    for (let i = 0; i < points.length - 1; ++i) {
+        const p0 = points[i], p1 = points[i + 1], cp0 = controlPoints[2*i], cp1 = controlPoints[2*i + 1];
+        const chord = vec_minus(p1, p0), len = magnitude(chord);
+        const isStraight = [cp0, cp1].every(cp => Math.abs(cross(chord, vec_minus(cp, p0))) <= 1e-9 * Math.max(len, 1) ** 2);
+        if (!isStraight) {
+            for (let j = 1; j < stepsPerSegment; ++j) {
+                result.push(bezierCurvePointAt(p0, cp0, cp1, p1, j / stepsPerSegment));
+            }
+        }
+        result.push(p1);
+    }
+    if (result.length > 1 && ptEq(result[0], last(result))) {
+        result.pop();
+    }
+    return result;
+}
@@ -0,0 +1,159 @@
+import {Point, Rectangle, getBoundingRect, ptEq} from './geometry';
+import {Curve, flattenCurve} from './curves';
+import {ContourDirection, Layer, Pointset, basePolygons, elevationOf} from './contours';
+import {ringArea} from './boolean';
+
+/*
+ * GeoJSON (RFC 7946) export of the base polygons and contours, and import of polygons as pointsets.
+ * Coordinates are in px with the y axis flipped, so that north is up in GIS tools - which also makes
+ * the outer rings counterclockwise and the holes clockwise, as the spec wants.
+ */
+
+export type Position = number[];
+
+export type Geometry =
+    { type: 'Polygon', coordinates: Position[][] } |
+    { type: 'MultiPolygon', coordinates: Position[][][] } |
+    { type: 'LineString', coordinates: Position[] } |
+    { type: 'MultiLineString', coordinates: Position[][] } |
+    { type: 'Point' | 'MultiPoint' | 'GeometryCollection', [key: string]: any };
+
+export interface Feature {
+    type: 'Feature';
+    geometry: Geometry;
+    properties: {[key: string]: any};
+}
+
+export interface FeatureCollection {
+    type: 'FeatureCollection';
+    features: Feature[];
+}
+
+export interface GeoJsonExportOptions {
+    contourGeometry: 'LineString' | 'Polygon'; //a line per contour ring, or a polygon (with holes) per contour
+    stepsPerSegment: number; //points per curve segment when flattening the contours
+}
+
+export const defaultGeoJsonExportOptions: GeoJsonExportOptions = {
+    contourGeometry: 'LineString',
+    stepsPerSegment: 8
+};
+
+function toPosition(p: Point): Position {
+    return [p.x, -p.y];
+}
+
+function toPoint(position: Position): Point {
+    return { x: position[0], y: -position[1] };
+}
+
+//closed, as GeoJSON rings are
+function toRing(points: Point[]): Position[] {
+    return [...points, points[0]].map(toPosition);
+}
+
+// The base polygons get kind 'base' (with their elevation and contour direction),
+// the contours kind 'contour', with the elevation and index of their layer (0 is the highest one)
+export function toGeoJson(pointsets: Pointset[], layers: Layer[], defaultElevation: number,
+                          options?: Partial<GeoJsonExportOptions>): FeatureCollection {
+    const {contourGeometry, stepsPerSegment} = {...defaultGeoJsonExportOptions, ...options};
+    const flatten = (c: Curve) => flattenCurve(c, stepsPerSegment);
+
+    const polys = basePolygons(pointsets);
+    const base: Feature[] = pointsets.flatMap((ps, i) => polys[i].length < 3 ? [] : [{
+        type: 'Feature' as const,
+        //outer rings are clockwise on the screen, i.e. have a positive area
+        geometry: { type: 'Polygon' as const, coordinates: [toRing(ringArea(polys[i]) >= 0 ? polys[i] : [...polys[i]].reverse())] },
+        properties: { kind: 'base', elevation: elevationOf(ps, defaultElevation), contourDirection: ps.contourDirection ?? 'outward' }
+    }]);
+
+    const contours = layers.flatMap((layer, layerIndex): Feature[] => {
+        const properties = { kind: 'contour', elevation: layer.elevation, layer: layerIndex, color: layer.color };
+        if (contourGeometry === 'Polygon') {
+            return layer.contours.map(c => ({
+                type: 'Feature' as const,
+                geometry: { type: 'Polygon' as const, coordinates: [c.outer, ...c.holes].map(flatten).map(toRing) },
+                properties
+            }));
+        }
+        return layer.contours.flatMap(c => [c.outer, ...c.holes]).map(curve => ({
+            type: 'Feature' as const,
+            geometry: { type: 'LineString' as const, coordinates: toRing(flatten(curve)) },
+            properties
+        }));
+    });
+
+    return { type: 'FeatureCollection', features: [...base, ...contours] };
+}
+
+function isPosition(p: any): p is Position {
+    return Array.isArray(p) && p.length >= 2 && p.every(n => typeof n === 'number' && isFinite(n));
+}
+
+function isRing(r: any): r is Position[] {
+    return Array.isArray(r) && r.every(isPosition);
+}
+
+//the outer rings of all the polygons in a geometry (pointsets have no holes, so those are left out)
+function outerRings(geometry: Geometry): Position[][] {
+    switch (geometry?.type) {
+        case 'Polygon':
+            return isRing(geometry.coordinates?.[0]) ? [geometry.coordinates[0]] : [];
+        case 'MultiPolygon':
+            return Array.isArray(geometry.coordinates) ? geometry.coordinates.map(p => p?.[0]).filter(isRing) : [];
+        case 'GeometryCollection':
+            return Array.isArray(geometry.geometries) ? geometry.geometries.flatMap(outerRings) : [];
+        default:
+            return [];
+    }
+}
+
+export interface GeoJsonImportOptions {
+    fitTo: Rectangle; //scales and moves the polygons to fit into it (keeping their proportions), null keeps the coordinates
+}
+
+// The polygons of a FeatureCollection, Feature or bare geometry as pointsets. Contours exported by toGeoJson are skipped,
+// and the elevation/contour direction of the base polygons is kept
+export function fromGeoJson(json: any, options?: Partial<GeoJsonImportOptions>): Pointset[] {
+    const features: Feature[] = json?.type === 'FeatureCollection' ? json.features
+        : json?.type === 'Feature' ? [json]
+        : [{ type: 'Feature', geometry: json, properties: {} }];
+    if (!Array.isArray(features) || !features.every(f => typeof f === 'object' && f != null)) {
+        throw new Error("Not a valid GeoJSON object");
+    }
+
+    const pointsets: Pointset[] = features
+        .filter(f => f.properties?.kind !== 'contour')
+        .flatMap(f => outerRings(f.geometry).map(ring => {
+            const points = ring.map(toPoint).filter((p, i, pts) => i == 0 || !ptEq(p, pts[i - 1]));
+            if (points.length > 1 && ptEq(points[0], points[points.length - 1])) {
+                points.pop();
+            }
+            const ps: Pointset = { points, controlPointDiffs: [] };
+            const {elevation, contourDirection} = f.properties ?? {};
+            if (typeof elevation === 'number') {
+                ps.elevation = elevation;
+            }
+            if (contourDirection === 'inward' || contourDirection === 'outward') {
+                ps.contourDirection = contourDirection as ContourDirection;
+            }
+            return ps;
+        }))
+        .filter(ps => ps.points.length >= 3);
+    if (pointsets.length == 0) {
+        throw new Error("No polygons found");
+    }
+
+    const fitTo = options?.fitTo;
+    if (fitTo != null) {
+        const bounds = getBoundingRect(pointsets.flatMap(ps => ps.points));
+        const scale = Math.min(fitTo.width / (bounds.width || 1), fitTo.height / (bounds.height || 1));
+        for (let ps of pointsets) {
+            ps.points = ps.points.map(p => ({
+                x: fitTo.x + (p.x - bounds.x) * scale,
+                y: fitTo.y + (p.y - bounds.y) * scale
+            }));
+        }
+    }
+    return pointsets;
+}
@@ -0,0 +1,300 @@
+import {overlappingPairs, segmentBounds} from './spatial';
+
+export interface Point {
+    x: number;
+    y: number;
+    id?: string; //only the points of pointsets have one, it's how the editor refers to them
+}
+
+export interface Rectangle {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Segment {
+    start: Point;
+    end: Point;
+}
+
+export interface Interval {
+    start: number;
+    end: number;
+}
+
+export function distance(x1: number, y1: number, x2: number, y2: number) {
+    return ((x1 - x2) ** 2 + (y1 - y2) ** 2) ** 0.5;
+}
+
+export function distancePts(p1: Point, p2: Point) {
+    return distance(p1.x, p1.y, p2.x, p2.y);
+}
+
+export function pt(x: number, y: number) {
+    return {x: x, y: y};
+}
+
+export function getBoundingRect(points: Point[]) {
+    let minX = Math.min(...points.map(p => p.x)), minY = Math.min(...points.map(p => p.y)),
+        maxX = Math.max(...points.map(p => p.x)), maxY = Math.max(...points.map(p => p.y));
+    return {x: minX, y: minY, width: maxX - minX, height: maxY - minY};
+}
+
+export function addCollinearPoints(pts: Point[], maxDistance: number): Point[] {
+    const withMidpoints = [];
+    for (let i = 0; i < pts.length - 1; ++i) {
+        const p0 = pts[i], p1 = pts[i+1];
+        if (withMidpoints.length === 0) {
+            withMidpoints.push(p0);
+        }
+        const dist = distancePts(p0, p1);
+        if (distancePts(p0, p1) >= maxDistance) {
+            const neededPts = Math.floor(dist / maxDistance);
+            for (let j = 1; j <= neededPts; ++j) {
+                const pt = vec_divide(vec_plus(vec_mult(p0, neededPts + 1 - j), vec_mult(p1, j)), neededPts + 1);
+                withMidpoints.push(pt);
+            }
+        }
+        withMidpoints.push(p1);
+    }
+    return withMidpoints;
+}
+
+export function segments(pts: Point[]): Segment[] {
+    if (pts.length < 2) {
+        return [];
+    }
+    let res = [];
+    let p0 = pts[0];
+    for (let i = 1; i < pts.length; ++i) {
+        res.push({ start: p0, end: pts[i] });
+        p0 = pts[i];
+    }
+    res.push({ start: pts[pts.length - 1], end: pts[0] });
+    return res;
+}
+
+export function cross(v1: Point, v2: Point) {
+    return v1.x*v2.y - v2.x*v1.y;
+}
+
+function isNumber(x: any): x is number {
+    return typeof x === "number";
+}
+
+function isPoint(o: any): o is Point {
+    return o.x != null && o.y != null;
+}
+
+export function vec(p1: Point | number, p2: Point | number): Point {
+    if (isNumber(p1) && isNumber(p2)) {
+        return {x: p1, y: p2};
+    }
+    else if (isPoint(p1) && isPoint(p2)) {
+        return {x: p2.x - p1.x, y: p2.y - p1.y };
+    }
+}
+
+export function closeTo(n: number, t: number) {
+    return Math.abs(n - t) < 1e-9;
+}
+
+export function intersectSegments(segment1: Segment, segment2: Segment): {u: number, v: number} {
+    const {start: s1, end: e1} = segment1, r = vec(s1, e1);
+    const {start: s2, end: e2} = segment2, s = vec(s2, e2);
+    const numerator1 = cross(vec(s1, s2), r), denom = cross(r, s);
+    if (closeTo(numerator1, 0) && closeTo(denom, 0)) {
+        let dot_r_r = dot(r, r);
+        let u0 = dot(vec(s1, s2), r)/dot_r_r,
+            u1 = dot(vec(s1, vec_plus(s2, s)), r)/dot_r_r;
+        if (dot(s, r) < 0) {
+            [u0, u1] = [u1, u0];
+        }
+        const intervalIntersection = intersectIntervals({start: u0, end: u1}, {start: 0, end: 1});
+        if (intervalIntersection != null) {
+            const u = intervalIntersection.start;
+            const v = (dot(vec_minus(s1, s2), s) + dot(vec_mult(r, u), s))/dot(s, s);
+            return {u, v};
+        }
+        // collinear, check for equal starts/ends, otherwise no intersection
+        if (ptClose(segment1.start, segment2.start)) return {u: 0, v: 0}
+        if (ptClose(segment2.start, segment1.end)) return {u: 1, v: 0};
+        if (ptClose(segment1.start, segment2.end)) return {u: 0, v: 1};
+        if (ptClose(segment1.end, segment2.end)) return {u: 1, v: 1};
+        return null;
+    } else if (closeTo(numerator1, 0) || closeTo(denom, 0)) {
+        return null;
+    }
+    const v = numerator1 / denom, u = cross(vec(s1, s2), s) / denom;
+    return {u, v};
+}
+
+export function intersectIntervals(i1: Interval, i2: Interval) {
+    const result = {start: Math.max(i1.start, i2.start), end: Math.min(i1.end, i2.end)};
+    return validInterval(result) ? result : null;
+}
+
+export function validInterval(interval: Interval) {
+    return interval.start <= interval.end;
+}
+
+export function vec_plus(...args: Point[]): Point {
+    return args.reduce((p1, p2) => ({x: p1.x + p2.x, y: p1.y + p2.y}), {x: 0, y: 0});
+}
+
+export function vec_minus(v1: Point, v2: Point): Point {
+    return {x: v1.x - v2.x, y: v1.y - v2.y };
+}
+
+export function vec_mult(v1: Point, t: number): Point {
+    return {x: v1.x * t, y: v1.y * t };
+}
+
+export function vec_divide(v1: Point, t: number) : Point {
+    return {x: v1.x / t, y: v1.y / t};
+}
+
+export function distanceSq(p1: Point, p2: Point): number {
+    return (p2.x - p1.x)**2 + (p2.y - p1.y)**2;
+}
+
+export function ptEq(p1: Point, p2: Point): boolean {
+    return p1.x === p2.x && p1.y === p2.y;
+}
+
+export function ptClose(p1: Point, p2: Point): boolean {
+    return closeTo(p1.x, p2.x) && closeTo(p1.y, p2.y);
+}
+
+export function dot(v1: Point, v2: Point): number {
+    return v1.x*v2.x + v1.y*v2.y;
+}
+
+export function magnitude(v: Point): number {
+    return Math.sqrt(dot(v, v));
+}
+
+export function normalized(v: Point): Point {
+    return vec_mult(v, 1/magnitude(v));
+}
+
+export function angleBetween(v1: Point, v2: Point): number {
+    const angleV2 = Math.atan2(v2.y, v2.x), angleV1 = Math.atan2(v1.y, v1.x);
+    let angle = angleV2 - angleV1;
+    if (angle > Math.PI) angle -= 2*Math.PI;
+    else if (angle <= -Math.PI) angle += 2*Math.PI;
+    return angle;
+}
+
+export function areWindingClockwise(pts: Point[]): boolean {
+    let sum = 0;
+    for (let s of segments(pts)) {
+        sum += (s.end.x - s.start.x)*(s.end.y + s.start.y);
+    }
+    return sum < 0;
+}
+
+export function inside(poly: Point[], pt: Point) {
+    const ray = {start: pt, end: ptPlus(pt, {x: 1, y: 0})};
+    let intersections = 0;
+    for (let s of segments(poly)) {
+        const inters = intersectSegments(s, ray);
+        if (inters != null && inters.u >= 0 && inters.u <= 1 && inters.v >= 0) {
+            ++intersections;
+        }
+    }
+    return intersections % 2 == 1;
+}
+
+export function pickClockwiseOrder(pts: Point[]) {
+    if (pts.length <= 2) {
+        return pts;
+    }
+    return areWindingClockwise(pts) ? pts : [...pts].reverse();
+}
+
+export function reorderClockwise(pts: Point[]) {
+    let center = vec_divide(pts.reduce((a, b) => ptPlus(a, b), pt(0, 0)), pts.length);
+    const compareFn = (a: Point, b: Point) => {
+        const a_center = vec(a, center);
+        const b_center = vec(b, center);
+        if (a_center.x >= 0 && b_center.x < 0) return -1;
+        if (a_center.x < 0 && b_center.x >= 0) return 1;
+        if (a_center.x === 0 && b_center.x === 0) {
+            if (a_center.y >= 0 && b_center.y >= 0) {
+                return b_center.y - a_center.y;
+            }
+        }
+        const det = cross(a_center, b_center);
+        if (det !== 0) {
+            return det < 0 ? -1 : 1;
+        }
+        // points a and b are on the same line from the center
+        // check which point is closer to the center
+        const dist1 = distanceSq(a, center), dist2 = distanceSq(b, center);
+        return dist2 - dist1;
+    };
+    return [...pts].sort(compareFn);
+}
+
+// The point of the segment closest to p
+export function closestPointOnSegment(p: Point, {start, end}: Segment): Point {
+    const v = vec_minus(end, start), lengthSq = dot(v, v);
+    if (lengthSq === 0) {
+        return { x: start.x, y: start.y };
+    }
+    const t = Math.max(0, Math.min(1, dot(vec_minus(p, start), v) / lengthSq));
+    return vec_plus(start, vec_mult(v, t));
+}
+
+//Assumes clockwise winding order
+export function normal(segment: Segment) {
+    const v = vec(segment.start, segment.end)
+    const n1 = normalized(vec(-v.y, v.x)), n2 = normalized(vec(v.y, -v.x));
+    return cross(v, n1) < 0 ? n1 : n2;
+}
+
+export function last<T>(arr: T[]): T {
+    if (arr.length == 0) {
+        return null;
+    }
+    return arr[arr.length - 1];
+}
+
+export function* pairs<T>(items: T[]) {
+    for (let i = 0; i < items.length; ++i) {
+        for (let j = i + 1; j < items.length; ++j) {
+            yield [items[i], items[j]];
+        }
+    }
+}
+
+export function hasSelfIntersectingParts(pts: Point[]): boolean {
+    //only segments with overlapping bounding boxes can intersect
+    for (let [s1, s2] of overlappingPairs(segments(pts), segmentBounds, 1e-9)) {
+        if (validIntersection(intersectSegments(s1, s2))) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export function validIntersection(intersection: {u: number, v: number}) {
+    const eps = 1e-9;
+    return intersection != null && intersection.u >= -eps && intersection.u <= 1 + eps && intersection.v >= -eps && intersection.v <= 1 + eps &&
+        ((intersection.u > 0 && intersection.u < 1) || (intersection.v > 0 && intersection.v < 1));
+}
+
+export function applyDiffs(pts: Point[], diffs: Point[]) {
+    return pts.map((p, i) => ({ x: p.x + diffs[i].x, y: p.y + diffs[i].y }));
+}
+
+export function ptMinus(pt1: Point, pt2?: Point): Point {
+    if (pt2 == null) { return {x: -pt1.x, y: -pt1.y }; }
+    return {x: pt1.x - pt2.x, y: pt1.y - pt2.y };
+}
+
+export function ptPlus(pt1: Point, pt2: Point): Point {
+    return {x: pt1.x + pt2.x, y: pt1.y + pt2.y };
+}
@@ -0,0 +1,64 @@
+import {Point, pt} from './geometry';
+
+/*
+ * Control point overrides of a closed curve through n points. They're stored as 2n diffs, two per segment:
+ * 2i is the outgoing handle of point i, 2i + 1 the incoming handle of point i + 1 (the last one is point 0's).
+ * The diffs are relative to the control points the interpolation picked, so the handles move with their points.
+ */
+
+export type HandleMode = 'mirrored' | 'smooth' | 'corner';
+
+export function outgoingHandle(i: number): number {
+    return 2 * i;
+}
+
+export function incomingHandle(i: number, pointCount: number): number {
+    return (2 * i - 1 + 2 * pointCount) % (2 * pointCount);
+}
+
+// The diffs if there are the right amount of them, zeros otherwise (e.g. for pointsets saved before they got populated)
+export function validDiffs(diffs: Point[], pointCount: number): Point[] {
+    return diffs.length === 2 * pointCount ? diffs : Array.from({length: 2 * pointCount}, () => pt(0, 0));
+}
+
+// [incoming, outgoing] diffs of every point
+export function handlePairs(diffs: Point[]): [Point, Point][] {
+    const n = diffs.length / 2;
+    return Array.from({length: n}, (_, i) => [diffs[incomingHandle(i, n)], diffs[outgoingHandle(i)]] as [Point, Point]);
+}
+
+export function fromHandlePairs(pairs: [Point, Point][]): Point[] {
+    const n = pairs.length, diffs: Point[] = new Array(2 * n);
+    pairs.forEach(([incoming, outgoing], i) => {
+        diffs[incomingHandle(i, n)] = incoming;
+        diffs[outgoingHandle(i)] = outgoing;
+    });
+    return diffs;
+}
+
+// The diffs after inserting a point (with no overrides) at index i - the handles of the other points stay as they were
+export function withInsertedPoint(diffs: Point[], i: number): Point[] {
+    const pairs = handlePairs(diffs);
+    pairs.splice(i, 0, [pt(0, 0), pt(0, 0)]);
+    return fromHandlePairs(pairs);
+}
+
+export function withRemovedPoint(diffs: Point[], i: number): Point[] {
+    const pairs = handlePairs(diffs);
+    pairs.splice(i, 1);
+    return fromHandlePairs(pairs);
+}
+
+// Where the other handle of a point goes when one of them is moved to cp:
+// mirrored handles stay opposite and equally long, smooth ones stay opposite but keep their length
+export function oppositeHandle(knot: Point, cp: Point, other: Point, mode: HandleMode): Point {
+    if (mode === 'corner') {
+        return other;
+    }
+    const dx = knot.x - cp.x, dy = knot.y - cp.y, len = Math.hypot(dx, dy);
+    if (len === 0) {
+        return other;
+    }
+    const otherLen = mode === 'mirrored' ? len : Math.hypot(other.x - knot.x, other.y - knot.y);
+    return { x: knot.x + dx / len * otherLen, y: knot.y + dy / len * otherLen };
+}
@@ -0,0 +1,229 @@
+import {Point, Rectangle, getBoundingRect} from './geometry';
+import {flattenCurve} from './curves';
+import {Layer, defaultContourOptions, layerCurves} from './contours';
+import {encodeGrayscalePng} from './png';
+
+/*
+ * Rasterizes the contour layers into a grid of elevations.
+ *
+ * Every layer is rasterized into a mask, and each pixel gets the elevation of the band it's in, i.e. that of the
+ * highest hill layer (or the deepest depression layer) containing it. That gives stepped terraces. The smooth
+ * interpolation also needs the distances to the contours around the band, which come from an exact Euclidean
+ * distance transform of the masks (Felzenszwalb & Huttenlocher) - the elevation then goes linearly from one contour
+ * to the next. Outside of all the layers it goes down to 0 over the contour spacing.
+ */
+
+export type HeightInterpolation = 'stepped' | 'smooth';
+
+export interface HeightmapOptions {
+    width: number; //in pixels
+    height: number; //in pixels, null keeps the proportions of the bounds
+    bounds: Rectangle; //the area that gets rasterized, null is the contours' bounding box (plus the contour spacing)
+    interpolation: HeightInterpolation;
+    interval: number; //of the contours, as in ContourOptions
+    spacing: number;
+    heightScale: number; //multiplies the elevations
+}
+
+export const defaultHeightmapOptions: HeightmapOptions = {
+    width: 512,
+    height: null,
+    bounds: null,
+    interpolation: 'smooth',
+    interval: defaultContourOptions.interval,
+    spacing: defaultContourOptions.spacing,
+    heightScale: 1
+};
+
+export interface Heightmap {
+    width: number;
+    height: number;
+    bounds: Rectangle;
+    elevations: Float32Array; //row by row, from the top left
+}
+
+const far = 1e20;
+
+// Squared distances to the closest 0 in f (which is either 0 or far), along one row or column of the grid
+function distanceTransform1d(f: Float64Array, n: number, spacing: number, d: Float64Array, v: Int32Array, z: Float64Array) {
+    let k = 0;
+    v[0] = 0;
+    z[0] = -Infinity;
+    z[1] = Infinity;
+    for (let q = 1; q < n; ++q) {
+        const xq = q * spacing;
+        let s: number;
+        while (true) {
+            const xr = v[k] * spacing;
+            s = ((f[q] + xq * xq) - (f[v[k]] + xr * xr)) / (2 * (xq - xr));
+            if (s > z[k]) {
+                break;
+            }
+            --k;
+        }
+        ++k;
+        v[k] = q;
+        z[k] = s;
+        z[k + 1] = Infinity;
+    }
+    k = 0;
+    for (let q = 0; q < n; ++q) {
+        const xq = q * spacing;
+        while (z[k + 1] < xq) {
+            ++k;
+        }
+        const xr = v[k] * spacing;
+        d[q] = (xq - xr) ** 2 + f[v[k]];
+    }
+}
+
+// Distances (in px of the drawing, not of the grid) from every pixel to the closest one where the mask has the value
+function distancesTo(mask: Uint8Array, value: number, width: number, height: number, pixelSize: Point): Float64Array {
+    const n = Math.max(width, height);
+    const f = new Float64Array(n), d = new Float64Array(n), v = new Int32Array(n), z = new Float64Array(n + 1);
+    const result = new Float64Array(width * height);
+    for (let i = 0; i < result.length; ++i) {
+        result[i] = mask[i] === value ? 0 : far;
+    }
+    for (let x = 0; x < width; ++x) {
+        for (let y = 0; y < height; ++y) {
+            f[y] = result[y * width + x];
+        }
+        distanceTransform1d(f, height, pixelSize.y, d, v, z);
+        for (let y = 0; y < height; ++y) {
+            result[y * width + x] = d[y];
+        }
+    }
+    for (let y = 0; y < height; ++y) {
+        for (let x = 0; x < width; ++x) {
+            f[x] = result[y * width + x];
+        }
+        distanceTransform1d(f, width, pixelSize.x, d, v, z);
+        for (let x = 0; x < width; ++x) {
+            result[y * width + x] = Math.sqrt(d[x]);
+        }
+    }
+    return result;
+}
+
+// 1 for the pixels whose centers are inside the layer's contours (even-odd, so the holes stay empty)
+function layerMask(layer: Layer, width: number, height: number, bounds: Rectangle): Uint8Array {
+    const mask = new Uint8Array(width * height), crossings: number[][] = Array.from({length: height}, () => []);
+    const pixelWidth = bounds.width / width, pixelHeight = bounds.height / height;
+    for (let ring of layerCurves(layer).map(c => flattenCurve(c))) {
+        for (let i = 0; i < ring.length; ++i) {
+            const p0 = ring[i], p1 = ring[(i + 1) % ring.length];
+            if (p0.y === p1.y) {
+                continue;
+            }
+            //the rows whose centers are in [min y, max y)
+            const fromRow = Math.max(0, Math.ceil((Math.min(p0.y, p1.y) - bounds.y) / pixelHeight - 0.5)),
+                toRow = Math.min(height - 1, Math.ceil((Math.max(p0.y, p1.y) - bounds.y) / pixelHeight - 0.5) - 1);
+            for (let row = fromRow; row <= toRow; ++row) {
+                const y = bounds.y + (row + 0.5) * pixelHeight;
+                crossings[row].push(p0.x + (y - p0.y) * (p1.x - p0.x) / (p1.y - p0.y));
+            }
+        }
+    }
+    for (let row = 0; row < height; ++row) {
+        const xs = crossings[row].sort((a, b) => a - b);
+        for (let i = 0; i + 1 < xs.length; i += 2) {
+            const fromCol = Math.max(0, Math.ceil((xs[i] - bounds.x) / pixelWidth - 0.5)),
+                toCol = Math.min(width - 1, Math.ceil((xs[i + 1] - bounds.x) / pixelWidth - 0.5) - 1);
+            mask.fill(1, row * width + fromCol, row * width + toCol + 1);
+        }
+    }
+    return mask;
+}
+
+function contoursBounds(layers: Layer[], margin: number): Rectangle {
+    const points = layers.flatMap(layerCurves).flatMap(c => [...c.points, ...c.controlPoints]);
+    if (points.length == 0) {
+        return { x: 0, y: 0, width: 1, height: 1 };
+    }
+    const r = getBoundingRect(points);
+    return { x: r.x - margin, y: r.y - margin, width: r.width + 2 * margin, height: r.height + 2 * margin };
+}
+
+export function rasterizeHeightmap(layers: Layer[], options?: Partial<HeightmapOptions>): Heightmap {
+    const opts = {...defaultHeightmapOptions, ...options};
+    const {interval, spacing} = opts, bounds = opts.bounds ?? contoursBounds(layers, spacing);
+    const width = Math.max(1, Math.round(opts.width)),
+        height = Math.max(1, Math.round(opts.height ?? width * bounds.height / bounds.width));
+    const pixelSize = { x: bounds.width / width, y: bounds.height / height }, size = width * height;
+
+    //the band of every pixel, as a multiple of the interval. Depressions win over hills
+    const masks = new Map(layers.map(l => [Math.round(l.elevation / interval), layerMask(l, width, height, bounds)] as [number, Uint8Array]));
+    const bands = new Int32Array(size);
+    for (let [k, mask] of masks) {
+        for (let i = 0; i < size; ++i) {
+            if (mask[i] && (k > 0 ? bands[i] >= 0 && k > bands[i] : k < bands[i])) {
+                bands[i] = k;
+            }
+        }
+    }
+
+    const elevations = new Float32Array(size);
+    if (opts.interpolation === 'stepped') {
+        for (let i = 0; i < size; ++i) {
+            elevations[i] = bands[i] * interval * opts.heightScale;
+        }
+        return { width, height, bounds, elevations };
+    }
+
+    //distance to the edge of the pixel's own band, and to the next contour away from it (up for hills, down for depressions)
+    const inward = new Float64Array(size).fill(far), above = new Float64Array(size).fill(far), below = new Float64Array(size).fill(far);
+    for (let [k, mask] of masks) {
+        const toOutside = distancesTo(mask, 0, width, height, pixelSize), toInside = distancesTo(mask, 1, width, height, pixelSize);
+        const outerBand = k > 0 ? k - 1 : k + 1, next = k > 0 ? above : below;
+        for (let i = 0; i < size; ++i) {
+            if (bands[i] === k) {
+                inward[i] = toOutside[i];
+            } else if (bands[i] === outerBand) {
+                next[i] = toInside[i];
+            }
+        }
+    }
+    for (let i = 0; i < size; ++i) {
+        const k = bands[i];
+        let elevation: number;
+        if (k > 0) {
+            elevation = (k + inward[i] / (inward[i] + above[i])) * interval;
+        } else if (k < 0) {
+            elevation = (k - inward[i] / (inward[i] + below[i])) * interval;
+        } else {
+            elevation = (Math.max(0, 1 - above[i] / spacing) - Math.max(0, 1 - below[i] / spacing)) * interval;
+        }
+        elevations[i] = elevation * opts.heightScale;
+    }
+    return { width, height, bounds, elevations };
+}
+
+export interface HeightmapImage {
+    pixels: Uint8Array | Uint16Array;
+    minElevation: number; //what black stands for
+    maxElevation: number; //what white stands for
+}
+
+// The elevations stretched over the whole range of gray levels
+export function heightmapImage({elevations}: Heightmap, bitDepth: 8 | 16): HeightmapImage {
+    let minElevation = Infinity, maxElevation = -Infinity;
+    for (let e of elevations) {
+        minElevation = Math.min(minElevation, e);
+        maxElevation = Math.max(maxElevation, e);
+    }
+    const maxValue = 2 ** bitDepth - 1, range = maxElevation - minElevation;
+    const pixels = bitDepth === 16 ? new Uint16Array(elevations.length) : new Uint8Array(elevations.length);
+    for (let i = 0; i < elevations.length; ++i) {
+        pixels[i] = range > 0 ? Math.round((elevations[i] - minElevation) / range * maxValue) : 0;
+    }
+    return { pixels, minElevation, maxElevation };
+}
+
+// A grayscale PNG of the heightmap, with the elevation range in its metadata
+export function heightmapPng(heightmap: Heightmap, bitDepth: 8 | 16): Uint8Array {
+    const {pixels, minElevation, maxElevation} = heightmapImage(heightmap, bitDepth);
+    return encodeGrayscalePng(heightmap.width, heightmap.height, pixels, bitDepth, {
+        Comment: `Elevations from ${minElevation} (black) to ${maxElevation} (white)`
+    });
+}
@@ -0,0 +1,16 @@
+// Headless contour generation - doesn't depend on the DOM, PIXI or Babylon, so it can be used from Node as well
+export * from './geometry';
+export * from './spatial';
+export * from './curves';
+export * from './boolean';
+export * from './offset';
+export * from './simplify';
+export * from './transform';
+export * from './handles';
+export * from './contours';
+export * from './geojson';
+export * from './svg';
+export * from './png';
+export * from './heightmap';
+export * from './terrain';
+export * from './models';
@@ -0,0 +1,166 @@
+import {MeshPart, triangleNormal} from './terrain';
+
+/*
+ * Writers for 3D model files. The parts are y-up as glTF and OBJ expect -
+ * STL gets turned z-up, which is what the slicers for 3D printing assume.
+ */
+
+function channels(color: number): [number, number, number] {
+    return [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff].map(c => c / 255) as [number, number, number];
+}
+
+function toLinear(c: number) {
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function num(n: number) {
+    return String(Math.round(n * 1e4) / 1e4);
+}
+
+// Wavefront OBJ with the colors as vertex colors (the "v x y z r g b" extension most tools read), so it needs no .mtl file
+export function toObj(parts: MeshPart[]): string {
+    const lines = ['# Topological map'];
+    let offset = 1;
+    parts.forEach((part, i) => {
+        const partColor = channels(part.color);
+        lines.push(`o part${i}`);
+        for (let j = 0; j < part.positions.length; j += 3) {
+            const rgb = part.colors != null ? part.colors.slice(j, j + 3) : partColor;
+            lines.push(`v ${[...part.positions.slice(j, j + 3), ...rgb].map(num).join(' ')}`);
+        }
+        for (let j = 0; j < (part.normals ?? []).length; j += 3) {
+            lines.push(`vn ${part.normals.slice(j, j + 3).map(num).join(' ')}`);
+        }
+        //the normals have the same indices as the vertices
+        const vertex = (index: number) => part.normals != null ? `${index + offset}//${index + offset}` : String(index + offset);
+        for (let j = 0; j < part.indices.length; j += 3) {
+            lines.push(`f ${part.indices.slice(j, j + 3).map(vertex).join(' ')}`);
+        }
+        offset += part.positions.length / 3;
+    });
+    return lines.join('\n') + '\n';
+}
+
+// Binary STL - 80 bytes of header, the triangle count, then a normal, 3 vertices and 2 unused bytes per triangle
+export function toStl(parts: MeshPart[]): Uint8Array {
+    const triangleCount = parts.reduce((sum, p) => sum + p.indices.length / 3, 0);
+    const buffer = new ArrayBuffer(84 + 50 * triangleCount), view = new DataView(buffer);
+    const header = 'Topological map';
+    for (let i = 0; i < header.length; ++i) {
+        view.setUint8(i, header.charCodeAt(i));
+    }
+    view.setUint32(80, triangleCount, true);
+
+    let offset = 84;
+    for (let part of parts) {
+        //y-up to z-up, keeping the handedness
+        const at = (i: number): [number, number, number] =>
+            [part.positions[3*i], -part.positions[3*i + 2], part.positions[3*i + 1]];
+        for (let j = 0; j < part.indices.length; j += 3) {
+            const vertices = [at(part.indices[j]), at(part.indices[j + 1]), at(part.indices[j + 2])];
+            const n = triangleNormal(vertices[0], vertices[1], vertices[2]), len = Math.hypot(...n) || 1;
+            for (let c of [...n.map(x => x / len), ...vertices.flat()]) {
+                view.setFloat32(offset, c, true);
+                offset += 4;
+            }
+            view.setUint16(offset, 0, true);
+            offset += 2;
+        }
+    }
+    return new Uint8Array(buffer);
+}
+
+// The entries of the glTF JSON that point into the binary chunk
+interface GltfBufferView {
+    buffer: number;
+    byteOffset: number;
+    byteLength: number;
+    target: number; //34962 for vertex attributes, 34963 for indices
+}
+
+interface GltfAccessor {
+    bufferView: number;
+    componentType: number; //5126 for floats, 5125 for unsigned ints
+    count: number;
+    type: 'VEC3' | 'SCALAR';
+    min?: number[];
+    max?: number[];
+}
+
+function padded(bytes: Uint8Array, padding: number): Uint8Array {
+    const result = new Uint8Array(Math.ceil(bytes.length / 4) * 4).fill(padding);
+    result.set(bytes);
+    return result;
+}
+
+// Binary glTF 2.0 (.glb) with a primitive and a material per part. Parts without normals get flat shading
+// (which suits the terraces), vertex colors get multiplied with the material's color
+export function toGlb(parts: MeshPart[], doubleSided = false): Uint8Array {
+    const nonEmpty = parts.filter(p => p.indices.length > 0);
+    const chunks: Uint8Array[] = [], bufferViews: GltfBufferView[] = [], accessors: GltfAccessor[] = [];
+    let byteLength = 0;
+    const addBufferView = (data: Float32Array | Uint32Array, target: number) => {
+        const bytes = padded(new Uint8Array(data.buffer), 0);
+        bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+        chunks.push(bytes);
+        byteLength += bytes.length;
+        return bufferViews.length - 1;
+    };
+
+    const primitives = nonEmpty.map((part, i) => {
+        const positions = new Float32Array(part.positions), min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+        for (let j = 0; j < positions.length; ++j) {
+            min[j % 3] = Math.min(min[j % 3], positions[j]);
+            max[j % 3] = Math.max(max[j % 3], positions[j]);
+        }
+        const vectors = (data: number[], bounds: Pick<GltfAccessor, 'min' | 'max'> = {}) => {
+            accessors.push({ bufferView: addBufferView(new Float32Array(data), 34962), componentType: 5126, count: data.length / 3, type: 'VEC3', ...bounds });
+            return accessors.length - 1;
+        };
+        const attributes: {[name: string]: number} = { POSITION: vectors(part.positions, { min, max }) };
+        if (part.normals != null) {
+            attributes.NORMAL = vectors(part.normals);
+        }
+        if (part.colors != null) {
+            attributes.COLOR_0 = vectors(part.colors.map(toLinear));
+        }
+        accessors.push({ bufferView: addBufferView(new Uint32Array(part.indices), 34963), componentType: 5125, count: part.indices.length, type: 'SCALAR' });
+        return { attributes, indices: accessors.length - 1, material: i };
+    });
+    const gltf = {
+        asset: { version: '2.0', generator: 'topological-maps-generator' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0, name: 'terrain' }],
+        meshes: [{ primitives }],
+        materials: nonEmpty.map(p => ({
+            pbrMetallicRoughness: {
+                baseColorFactor: [...(p.colors != null ? [1, 1, 1] : channels(p.color).map(toLinear)), 1],
+                metallicFactor: 0,
+                roughnessFactor: 1
+            },
+            doubleSided
+        })),
+        accessors,
+        bufferViews,
+        buffers: [{ byteLength }]
+    };
+
+    //the JSON is all ASCII, so there's no need for a proper UTF-8 encoder
+    const json = padded(new Uint8Array([...JSON.stringify(gltf)].map(c => c.charCodeAt(0))), 0x20);
+    const bin = new Uint8Array(byteLength);
+    chunks.reduce((offset, c) => { bin.set(c, offset); return offset + c.length; }, 0);
+
+    const totalLength = 12 + 8 + json.length + 8 + bin.length;
+    const result = new Uint8Array(totalLength), view = new DataView(result.buffer);
+    view.setUint32(0, 0x46546c67, true); //glTF
+    view.setUint32(4, 2, true);
+    view.setUint32(8, totalLength, true);
+    view.setUint32(12, json.length, true);
+    view.setUint32(16, 0x4e4f534a, true); //JSON
+    result.set(json, 20);
+    view.setUint32(20 + json.length, bin.length, true);
+    view.setUint32(24 + json.length, 0x004e4942, true); //BIN
+    result.set(bin, 28 + json.length);
+    return result;
+}
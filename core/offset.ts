@@ -0,0 +1,85 @@
+import {Point, cross, dot, magnitude, vec} from './geometry';
+import {Polygon, fillRings, polygon, polygonRings} from './boolean';
+
+/*
+ * Polygon offsetting, i.e. growing (positive delta) or shrinking (negative delta) polygons by a fixed distance.
+ *
+ * Every ring is offset on its own: each edge is moved along its outward normal, and consecutive edges are
+ * connected with a join - at convex corners that's a round arc, a miter or a bevel, at concave corners
+ * the two moved edges are connected through the original vertex. That leaves small loops at concave corners
+ * and inverted parts where the polygon got shrunk past its width, which all have a winding number <= 0.
+ * Filling the raw rings with the 'positive' fill rule removes them and merges the offsets that ran into each other.
+ */
+
+export type JoinType = 'round' | 'miter' | 'bevel';
+
+export interface OffsetOptions {
+    join: JoinType;
+    miterLimit: number; //max distance of a miter point from its vertex, as a multiple of delta - longer ones get beveled
+    arcTolerance: number; //max distance between a round join and the true arc, in px
+}
+
+export const defaultOffsetOptions: OffsetOptions = {
+    join: 'round',
+    miterLimit: 2,
+    arcTolerance: 0.25
+};
+
+export function offset(polygons: Polygon[], delta: number, options?: Partial<OffsetOptions>): Polygon[] {
+    const opts = {...defaultOffsetOptions, ...options};
+    const rings = polygons.map(p => polygon(p.outer, p.holes)).flatMap(polygonRings);
+    if (delta === 0) {
+        return fillRings(rings);
+    }
+    return fillRings(rings.map(r => offsetRing(r, delta, opts)), 'positive');
+}
+
+// The raw offset of a single ring (positive area for outer rings, negative for holes), before removing the loops
+export function offsetRing(ring: Point[], delta: number, options?: Partial<OffsetOptions>): Point[] {
+    const {join, miterLimit, arcTolerance} = {...defaultOffsetOptions, ...options};
+    const pts = ring.filter((p, i) => {
+        const next = ring[(i + 1) % ring.length];
+        return p.x !== next.x || p.y !== next.y;
+    });
+    if (pts.length < 3) {
+        return [];
+    }
+
+    //outward normals - the inside is on the left of every edge, so these point to the right
+    const normals = pts.map((p, i) => {
+        const d = vec(p, pts[(i + 1) % pts.length]), len = magnitude(d);
+        return { x: d.y / len, y: -d.x / len };
+    });
+    const absDelta = Math.abs(delta);
+    const stepsPerRadian = Math.PI / Math.acos(1 - Math.min(arcTolerance, absDelta) / absDelta) / (2 * Math.PI);
+    const moved = (p: Point, n: Point) => ({ x: p.x + n.x * delta, y: p.y + n.y * delta });
+
+    const result: Point[] = [];
+    for (let i = 0; i < pts.length; ++i) {
+        const p = pts[i], n1 = normals[(i - 1 + pts.length) % pts.length], n2 = normals[i];
+        const sinA = cross(n1, n2), cosA = dot(n1, n2);
+        if (Math.abs(sinA) < 1e-9 && cosA > 0) {
+            //(almost) collinear edges
+            result.push(moved(p, n1));
+        } else if (sinA * delta < 0) {
+            //concave corner w.r.t. the offset direction - goes through the vertex, the loop gets removed later
+            result.push(moved(p, n1), p, moved(p, n2));
+        } else if (join === 'miter' && 1 + cosA >= 2 / (miterLimit * miterLimit)) {
+            const r = delta / (1 + cosA);
+            result.push({ x: p.x + (n1.x + n2.x) * r, y: p.y + (n1.y + n2.y) * r });
+        } else if (join === 'round') {
+            const angle = Math.atan2(sinA, cosA), steps = Math.max(1, Math.round(stepsPerRadian * Math.abs(angle)));
+            const stepSin = Math.sin(angle / steps), stepCos = Math.cos(angle / steps);
+            let n = n1;
+            result.push(moved(p, n));
+            for (let j = 1; j < steps; ++j) {
+                n = { x: n.x * stepCos - n.y * stepSin, y: n.x * stepSin + n.y * stepCos };
+                result.push(moved(p, n));
+            }
+            result.push(moved(p, n2));
+        } else {
+            result.push(moved(p, n1), moved(p, n2));
+        }
+    }
+    return result;
+}
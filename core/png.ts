@@ -0,0 +1,94 @@
+/*
+ * Minimal PNG encoder for grayscale images - enough for heightmaps, without depending on the DOM or zlib.
+ * The image data is stored in uncompressed deflate blocks, so the files are about as big as the raw pixels.
+ */
+
+const crcTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; ++n) {
+        let c = n;
+        for (let k = 0; k < 8; ++k) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; ++i) {
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+    let a = 1, b = 0;
+    for (let i = 0; i < bytes.length; ++i) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    for (let p of parts) {
+        result.set(p, offset);
+        offset += p.length;
+    }
+    return result;
+}
+
+function uint32(n: number): Uint8Array {
+    return new Uint8Array([n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]);
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+    const typeAndData = concat([new Uint8Array([...type].map(c => c.charCodeAt(0))), data]);
+    return concat([uint32(data.length), typeAndData, uint32(crc32(typeAndData))]);
+}
+
+//a zlib stream of stored (uncompressed) deflate blocks
+function zlibStored(data: Uint8Array): Uint8Array {
+    const maxBlock = 65535, parts = [new Uint8Array([0x78, 0x01])];
+    for (let offset = 0; offset < data.length || offset == 0; offset += maxBlock) {
+        const block = data.subarray(offset, offset + maxBlock), isLast = offset + maxBlock >= data.length;
+        parts.push(new Uint8Array([isLast ? 1 : 0, block.length & 0xff, block.length >>> 8,
+            ~block.length & 0xff, (~block.length >>> 8) & 0xff]), block);
+    }
+    parts.push(uint32(adler32(data)));
+    return concat(parts);
+}
+
+// Row-major grayscale pixels, 8 or 16 bits each. The text entries end up in tEXt chunks
+export function encodeGrayscalePng(width: number, height: number, pixels: Uint8Array | Uint16Array, bitDepth: 8 | 16,
+                                   text: {[keyword: string]: string} = {}): Uint8Array {
+    const bytesPerPixel = bitDepth / 8, rowLength = 1 + width * bytesPerPixel;
+    const raw = new Uint8Array(rowLength * height);
+    for (let y = 0; y < height; ++y) {
+        //each row starts with its filter type, 0 is none
+        for (let x = 0; x < width; ++x) {
+            const value = pixels[y * width + x], offset = y * rowLength + 1 + x * bytesPerPixel;
+            if (bitDepth === 16) {
+                raw[offset] = value >>> 8;
+                raw[offset + 1] = value & 0xff;
+            } else {
+                raw[offset] = value;
+            }
+        }
+    }
+
+    const header = concat([uint32(width), uint32(height), new Uint8Array([bitDepth, 0, 0, 0, 0])]);
+    const textChunks = Object.entries(text).map(([keyword, value]) =>
+        chunk('tEXt', new Uint8Array([...keyword + '\0' + value].map(c => c.charCodeAt(0) & 0xff))));
+    return concat([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        chunk('IHDR', header),
+        ...textChunks,
+        chunk('IDAT', zlibStored(raw)),
+        chunk('IEND', new Uint8Array(0))
+    ]);
+}
@@ -0,0 +1,74 @@
+import {Point, closestPointOnSegment, cross, distancePts, vec} from './geometry';
+
+/*
+ * Polyline simplification - fewer points for (about) the same line, e.g. for freehand strokes.
+ * The first and the last point are always kept.
+ *  douglasPeucker - keeps the point farthest from the line between the ends if it's further than the tolerance,
+ *                   and does the same on both sides of it. Keeps the sharp features
+ *  visvalingam    - removes the point that makes the smallest triangle with its neighbours, as long as it's smaller
+ *                   than the one with base and height of the tolerance. Smoother, closer to what a hand would draw
+ */
+
+export type SimplifyMethod = 'douglasPeucker' | 'visvalingam';
+
+export function simplify(points: Point[], tolerance: number, method: SimplifyMethod = 'douglasPeucker'): Point[] {
+    return method === 'visvalingam' ? simplifyVisvalingam(points, tolerance) : simplifyDouglasPeucker(points, tolerance);
+}
+
+export function simplifyDouglasPeucker(points: Point[], tolerance: number): Point[] {
+    if (points.length < 3) {
+        return [...points];
+    }
+    const keep = points.map((_, i) => i === 0 || i === points.length - 1);
+    //ranges of indices still to simplify - a stack instead of recursion, as strokes can have lots of points
+    const ranges: [number, number][] = [[0, points.length - 1]];
+    while (ranges.length > 0) {
+        const [from, to] = ranges.pop(), segment = { start: points[from], end: points[to] };
+        let farthest = -1, farthestDistance = tolerance;
+        for (let i = from + 1; i < to; ++i) {
+            const d = distancePts(points[i], closestPointOnSegment(points[i], segment));
+            if (d > farthestDistance) {
+                farthest = i;
+                farthestDistance = d;
+            }
+        }
+        if (farthest !== -1) {
+            keep[farthest] = true;
+            ranges.push([from, farthest], [farthest, to]);
+        }
+    }
+    return points.filter((_, i) => keep[i]);
+}
+
+function triangleArea(a: Point, b: Point, c: Point) {
+    return Math.abs(cross(vec(a, b), vec(a, c))) / 2;
+}
+
+// Quadratic in the number of points - that's fine for strokes, but not for simplifying whole coastlines
+export function simplifyVisvalingam(points: Point[], tolerance: number): Point[] {
+    const n = points.length, minArea = tolerance * tolerance / 2;
+    //the remaining points as a linked list
+    const previous = points.map((_, i) => i - 1), next = points.map((_, i) => i + 1), removed = points.map(() => false);
+    const areaOf = (i: number) => triangleArea(points[previous[i]], points[i], points[next[i]]);
+    const areas = points.map((_, i) => i === 0 || i === n - 1 ? Infinity : areaOf(i));
+    for (;;) {
+        let smallest = -1;
+        for (let i = 1; i < n - 1; ++i) {
+            if (!removed[i] && (smallest === -1 || areas[i] < areas[smallest])) {
+                smallest = i;
+            }
+        }
+        if (smallest === -1 || areas[smallest] >= minArea) {
+            break;
+        }
+        removed[smallest] = true;
+        const p = previous[smallest], q = next[smallest];
+        next[p] = q;
+        previous[q] = p;
+        //a neighbour's area doesn't drop below the removed one's, so that the points go in the order of their (effective) area
+        for (let i of [p, q].filter(i => i !== 0 && i !== n - 1)) {
+            areas[i] = Math.max(areaOf(i), areas[smallest]);
+        }
+    }
+    return points.filter((_, i) => !removed[i]);
+}
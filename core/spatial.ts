@@ -0,0 +1,122 @@
+import {Point, Rectangle, Segment} from './geometry';
+
+/*
+ * A uniform grid of square cells for finding the items near a point or overlapping a rectangle, without going
+ * through all of them. Every item is in all the cells its bounding box touches, so items much bigger than the cells
+ * are expensive - the cell size should be about the size of a typical item (or of a typical query).
+ */
+
+export class SpatialGrid<T> {
+    private cells = new Map<string, Set<T>>();
+    private cellsOf = new Map<T, string[]>();
+
+    constructor(readonly cellSize: number) {}
+
+    get size() {
+        return this.cellsOf.size;
+    }
+
+    insert(item: T, bounds: Rectangle) {
+        const keys = this.keysOf(bounds);
+        for (let key of keys) {
+            if (!this.cells.has(key)) {
+                this.cells.set(key, new Set());
+            }
+            this.cells.get(key).add(item);
+        }
+        this.cellsOf.set(item, keys);
+    }
+
+    remove(item: T) {
+        for (let key of this.cellsOf.get(item) ?? []) {
+            const cell = this.cells.get(key);
+            cell.delete(item);
+            if (cell.size == 0) {
+                this.cells.delete(key);
+            }
+        }
+        this.cellsOf.delete(item);
+    }
+
+    update(item: T, bounds: Rectangle) {
+        this.remove(item);
+        this.insert(item, bounds);
+    }
+
+    clear() {
+        this.cells.clear();
+        this.cellsOf.clear();
+    }
+
+    // The items in the cells the rectangle touches - a superset of the ones overlapping it, so callers still need to check
+    query(rect: Rectangle): T[] {
+        const result = new Set<T>();
+        for (let key of this.keysOf(rect)) {
+            this.cells.get(key)?.forEach(item => result.add(item));
+        }
+        return [...result];
+    }
+
+    // Same as query, for the square around the point
+    near(p: Point, radius: number): T[] {
+        return this.query({ x: p.x - radius, y: p.y - radius, width: 2 * radius, height: 2 * radius });
+    }
+
+    private keysOf(rect: Rectangle): string[] {
+        const fromX = Math.floor(rect.x / this.cellSize), toX = Math.floor((rect.x + rect.width) / this.cellSize),
+            fromY = Math.floor(rect.y / this.cellSize), toY = Math.floor((rect.y + rect.height) / this.cellSize);
+        const keys = [];
+        for (let i = fromX; i <= toX; ++i) {
+            for (let j = fromY; j <= toY; ++j) {
+                keys.push(i + ',' + j);
+            }
+        }
+        return keys;
+    }
+}
+
+export function pointBounds(p: Point): Rectangle {
+    return { x: p.x, y: p.y, width: 0, height: 0 };
+}
+
+export function segmentBounds({start, end}: Segment): Rectangle {
+    const x = Math.min(start.x, end.x), y = Math.min(start.y, end.y);
+    return { x, y, width: Math.max(start.x, end.x) - x, height: Math.max(start.y, end.y) - y };
+}
+
+// The pairs of items whose (padded) bounding boxes overlap, each pair once, in the order of the items.
+// With few items it's quicker to compare them all
+export function* overlappingPairs<T>(items: T[], boundsOf: (item: T) => Rectangle, padding = 0): Generator<[T, T]> {
+    const bounds = items.map(item => {
+        const b = boundsOf(item);
+        return { x: b.x - padding, y: b.y - padding, width: b.width + 2 * padding, height: b.height + 2 * padding };
+    });
+    const overlap = (i: number, j: number) => bounds[i].x <= bounds[j].x + bounds[j].width && bounds[j].x <= bounds[i].x + bounds[i].width &&
+        bounds[i].y <= bounds[j].y + bounds[j].height && bounds[j].y <= bounds[i].y + bounds[i].height;
+    if (items.length < 32) {
+        for (let i = 0; i < items.length; ++i) {
+            for (let j = i + 1; j < items.length; ++j) {
+                if (overlap(i, j)) {
+                    yield [items[i], items[j]];
+                }
+            }
+        }
+        return;
+    }
+
+    //cells about the size of an average item, but not so small that the biggest ones end up in too many cells
+    const averageSize = bounds.reduce((sum, b) => sum + Math.max(b.width, b.height), 0) / bounds.length;
+    const extent = bounds.reduce((e, b) => ({
+        minX: Math.min(e.minX, b.x), maxX: Math.max(e.maxX, b.x + b.width),
+        minY: Math.min(e.minY, b.y), maxY: Math.max(e.maxY, b.y + b.height)
+    }), { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity });
+    const largest = Math.max(extent.maxX - extent.minX, extent.maxY - extent.minY);
+    const grid = new SpatialGrid<number>(Math.max(averageSize, largest / 256, 1e-9));
+    bounds.forEach((b, i) => grid.insert(i, b));
+    for (let i = 0; i < items.length; ++i) {
+        const candidates = grid.query(bounds[i]).filter(j => j > i && overlap(i, j)).sort((a, b) => a - b);
+        for (let j of candidates) {
+            yield [items[i], items[j]];
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import {Point, getBoundingRect} from './geometry';
+import {Curve} from './curves';
+import {Contour, Layer, Pointset, isInward, pointsetCurve} from './contours';
+
+export interface SvgExportOptions {
+    strokeWidth: number;
+    fill: boolean; //fills the band between each contour and the next one with the contour's color
+    fillOpacity: number;
+    includeBase: boolean; //draws the base polygons on top of the contours
+    baseColor: number;
+    inwardBaseColor: number;
+    padding: number; //around the drawing, in px
+}
+
+export const defaultSvgExportOptions: SvgExportOptions = {
+    strokeWidth: 1,
+    fill: false,
+    fillOpacity: 1,
+    includeBase: false,
+    baseColor: 0x000000,
+    inwardBaseColor: 0x996633,
+    padding: 10
+};
+
+function num(n: number) {
+    return String(Math.round(n * 100) / 100);
+}
+
+function coords(p: Point) {
+    return num(p.x) + ' ' + num(p.y);
+}
+
+function color(c: number) {
+    return '#' + c.toString(16).padStart(6, '0');
+}
+
+// A closed cubic Bezier path through the points of the curve
+export function curvePathData({points, controlPoints}: Curve): string {
+    if (points.length < 2 || controlPoints.length < points.length * 2 - 2) {
+        return '';
+    }
+    let d = 'M' + coords(points[0]);
+    for (let i = 0; i < points.length - 1; ++i) {
+        d += 'C' + [controlPoints[2*i], controlPoints[2*i + 1], points[i + 1]].map(coords).join(' ');
+    }
+    return d + 'Z';
+}
+
+function contourPathData(contour: Contour) {
+    return [contour.outer, ...contour.holes].map(curvePathData).join('');
+}
+
+// Lowest hill layers first, so the higher ones are drawn over them, then the depressions from the shallowest one down
+function drawingOrder(layers: Layer[]): Layer[] {
+    return [...layers.filter(l => l.elevation > 0).reverse(), ...layers.filter(l => l.elevation < 0)];
+}
+
+export function toSvg(pointsets: Pointset[], layers: Layer[], options?: Partial<SvgExportOptions>): string {
+    const opts = {...defaultSvgExportOptions, ...options};
+    const baseCurves = opts.includeBase ? pointsets.filter(ps => ps.points.length > 1).map(ps => ({ps, curve: pointsetCurve(ps)})) : [];
+    const allCurves = [...layers.flatMap(l => l.contours.flatMap(c => [c.outer, ...c.holes])), ...baseCurves.map(b => b.curve)];
+    const allPoints = allCurves.flatMap(c => [...c.points, ...c.controlPoints]);
+    const bounds = allPoints.length > 0 ? getBoundingRect(allPoints) : { x: 0, y: 0, width: 0, height: 0 };
+    const pad = opts.padding + opts.strokeWidth / 2,
+        viewBox = [bounds.x - pad, bounds.y - pad, bounds.width + 2 * pad, bounds.height + 2 * pad].map(num).join(' ');
+
+    const lines = [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${num(bounds.width + 2 * pad)}" height="${num(bounds.height + 2 * pad)}">`,
+        `<g id="contours" stroke-width="${num(opts.strokeWidth)}" stroke-linejoin="round">`
+    ];
+    for (let layer of drawingOrder(layers)) {
+        const fill = opts.fill ? `fill="${color(layer.color)}" fill-opacity="${num(opts.fillOpacity)}" fill-rule="evenodd"` : 'fill="none"';
+        lines.push(`<g data-elevation="${layer.elevation}" stroke="${color(layer.color)}" ${fill}>`);
+        lines.push(...layer.contours.map(c => `<path d="${contourPathData(c)}"/>`));
+        lines.push('</g>');
+    }
+    lines.push('</g>');
+    if (baseCurves.length > 0) {
+        lines.push(`<g id="base" stroke-width="${num(opts.strokeWidth)}" fill="none">`);
+        lines.push(...baseCurves.map(({ps, curve}) =>
+            `<path d="${curvePathData(curve)}" stroke="${color(isInward(ps) ? opts.inwardBaseColor : opts.baseColor)}"/>`));
+        lines.push('</g>');
+    }
+    lines.push('</svg>');
+    return lines.join('\n');
+}
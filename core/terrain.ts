@@ -0,0 +1,262 @@
+import * as earcut from 'earcut';
+import {Point, getBoundingRect} from './geometry';
+import {flattenCurve} from './curves';
+import {Layer, defaultContourOptions, layerCurves} from './contours';
+import {polygon, polygonRings, union, windingNumber} from './boolean';
+import {offset} from './offset';
+
+/*
+ * Triangle meshes of the terraced terrain, independent of Babylon, for exporting it.
+ *
+ * The surface is made of the bands between neighbouring contours - a band is flat, at the elevation of the contour
+ * around it (for hills) or the one inside of it (for depressions), and has the contours on both of its sides
+ * as its outline. The solid also has the walls between the bands, plus a base with side walls below the ground,
+ * so that it's closed - every edge of a face is also the edge of another one, at exactly the same positions.
+ * The faces don't share vertices though (nor do the parts of different colors), so the tools that need that
+ * (e.g. slicers) have to merge the vertices by position.
+ * The continuous surface instead triangulates every band with its outline at the heights of the two contours,
+ * so that it slopes from one to the next - and from the lowest contours down to the ground, over one contour spacing.
+ *
+ * Coordinates are y-up: x goes right, y up and z down the 2D view, in px (times the scale).
+ */
+
+export type TerrainStyle = 'terraces' | 'solid' | 'surface';
+
+export interface TerrainOptions {
+    style: TerrainStyle; //just the flat terraces, a solid with walls and a base, or a continuous surface
+    interval: number; //of the contours, as in ContourOptions
+    spacing: number;
+    scale: number; //model units per px
+    verticalExaggeration: number; //px of height per unit of elevation (before scaling)
+    baseThickness: number; //how far the base goes below the lowest terrace, in elevation units
+    margin: number; //flat ground around the contours, in px
+    groundColor: number;
+    stepsPerSegment: number; //when flattening the contour curves
+}
+
+export const defaultTerrainOptions: TerrainOptions = {
+    style: 'solid',
+    interval: defaultContourOptions.interval,
+    spacing: defaultContourOptions.spacing,
+    scale: 1,
+    verticalExaggeration: 1,
+    baseThickness: defaultContourOptions.interval,
+    margin: defaultContourOptions.spacing,
+    groundColor: 0xdddddd,
+    stepsPerSegment: 8
+};
+
+// Triangles sharing a color - one material's worth
+export interface MeshPart {
+    color: number;
+    positions: number[]; //x, y, z of every vertex
+    indices: number[]; //3 per triangle, counterclockwise when looking at its front
+    normals?: number[]; //of every vertex, for smooth shading
+    colors?: number[]; //r, g, b (from 0 to 1) of every vertex, instead of the part's color
+}
+
+type Vector3 = [number, number, number];
+
+function subtract(a: Vector3, b: Vector3): Vector3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function crossProduct(a: Vector3, b: Vector3): Vector3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+export function triangleNormal(a: Vector3, b: Vector3, c: Vector3): Vector3 {
+    return crossProduct(subtract(b, a), subtract(c, a));
+}
+
+// Triangles of a polygon (the first ring) with holes, as indices into all the points of the rings, one ring after the other
+function triangulate(rings: Point[][]): number[] {
+    const holeIndices: number[] = [];
+    let count = 0;
+    for (let r of rings.slice(0, -1)) {
+        count += r.length;
+        holeIndices.push(count);
+    }
+    return earcut(rings.flat().flatMap(p => [p.x, p.y]), holeIndices);
+}
+
+class PartBuilder {
+    parts = new Map<number, MeshPart>();
+
+    part(color: number): MeshPart {
+        if (!this.parts.has(color)) {
+            this.parts.set(color, { color, positions: [], indices: [] });
+        }
+        return this.parts.get(color);
+    }
+
+    vertex(part: MeshPart, p: Vector3): number {
+        part.positions.push(...p);
+        return part.positions.length / 3 - 1;
+    }
+
+    //flips the triangle if needed, so that its front faces the same way as the normal
+    triangle(part: MeshPart, i0: number, i1: number, i2: number, normal: Vector3) {
+        const at = (i: number): Vector3 => [part.positions[3*i], part.positions[3*i + 1], part.positions[3*i + 2]];
+        const n = triangleNormal(at(i0), at(i1), at(i2));
+        const facesNormal = n[0] * normal[0] + n[1] * normal[1] + n[2] * normal[2] >= 0;
+        part.indices.push(i0, facesNormal ? i1 : i2, facesNormal ? i2 : i1);
+    }
+
+    //a flat polygon with holes at the given height, facing up or down
+    polygon(color: number, outer: Point[], holes: Point[][], height: number, facingUp: boolean) {
+        const part = this.part(color), rings = [outer, ...holes];
+        const first = rings.flat().map(p => this.vertex(part, [p.x, height, p.y]))[0];
+        const triangles = triangulate(rings);
+        for (let i = 0; i < triangles.length; i += 3) {
+            this.triangle(part, first + triangles[i], first + triangles[i + 1], first + triangles[i + 2], [0, facingUp ? 1 : -1, 0]);
+        }
+    }
+
+    //vertical quads along a closed ring. The ring's inside is on the left of its edges (as for the contours' outer rings
+    //and holes alike) - the walls face away from it, or towards it when facingInside
+    wall(color: number, ring: Point[], bottom: number, top: number, facingInside: boolean) {
+        const part = this.part(color);
+        for (let i = 0; i < ring.length; ++i) {
+            const p0 = ring[i], p1 = ring[(i + 1) % ring.length];
+            const sign = facingInside ? -1 : 1, normal: Vector3 = [sign * (p1.y - p0.y), 0, -sign * (p1.x - p0.x)];
+            const v = [[p0, bottom], [p1, bottom], [p1, top], [p0, top]]
+                .map(([p, h]: [Point, number]) => this.vertex(part, [p.x, h, p.y]));
+            this.triangle(part, v[0], v[1], v[2], normal);
+            this.triangle(part, v[0], v[2], v[3], normal);
+        }
+    }
+}
+
+// Groups non-intersecting rings into polygons with holes by how deep they're nested - every other level is a hole
+function evenOddPolygons(rings: Point[][]): {outer: Point[], holes: Point[][]}[] {
+    const containing = rings.map((r, i) => rings.filter((other, j) => j !== i && windingNumber(other, r[0]) !== 0));
+    return rings.flatMap((outer, i) => containing[i].length % 2 !== 0 ? [] : [{
+        outer,
+        holes: rings.filter((_, j) => containing[j].length === containing[i].length + 1 && containing[j].includes(outer))
+    }]);
+}
+
+function channels(color: number): number[] {
+    return [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff].map(c => c / 255);
+}
+
+interface Level {
+    layer: Layer;
+    rings: Point[][];
+}
+
+function surfacePart(levels: Map<number, Level>, ground: Point[], opts: TerrainOptions): MeshPart {
+    const {interval, spacing} = opts, ringsAt = (k: number) => levels.get(k)?.rings ?? [];
+    //the feet of the hills and the rims of the depressions
+    const polygonsAt = (k: number) => evenOddPolygons(ringsAt(k)).map(p => polygon(p.outer, p.holes));
+    const feet = union(offset(polygonsAt(1), spacing), offset(polygonsAt(-1), spacing)).flatMap(polygonRings);
+
+    const ringLevels = new Map<Point[], {height: number, color: number}>();
+    for (let [k, {layer, rings}] of levels) {
+        rings.forEach(r => ringLevels.set(r, { height: k * interval * opts.verticalExaggeration, color: layer.color }));
+    }
+    [ground, ...feet].forEach(r => ringLevels.set(r, { height: 0, color: opts.groundColor }));
+
+    const part: MeshPart = { color: opts.groundColor, positions: [], indices: [], normals: [], colors: [] };
+    //the bands share their outlines, and so the vertices on them
+    const vertices = new Map<Point, number>();
+    const vertex = (p: Point, ring: Point[]) => {
+        if (!vertices.has(p)) {
+            const {height, color} = ringLevels.get(ring);
+            part.positions.push(p.x, height, p.y);
+            part.colors.push(...channels(color));
+            vertices.set(p, vertices.size);
+        }
+        return vertices.get(p);
+    };
+
+    const builder = new PartBuilder();
+    const bands = [
+        [ground, ...feet],
+        [...feet, ...ringsAt(1), ...ringsAt(-1)],
+        ...[...levels.keys()].map(k => [...ringsAt(k), ...ringsAt(k > 0 ? k + 1 : k - 1)])
+    ];
+    for (let rings of bands) {
+        for (let {outer, holes} of evenOddPolygons(rings)) {
+            const outline = [outer, ...holes], indices = outline.flatMap(r => r.map(p => vertex(p, r)));
+            const triangles = triangulate(outline);
+            for (let i = 0; i < triangles.length; i += 3) {
+                builder.triangle(part, indices[triangles[i]], indices[triangles[i + 1]], indices[triangles[i + 2]], [0, 1, 0]);
+            }
+        }
+    }
+
+    //smooth normals - the (area weighted) normals of the triangles around each vertex, averaged
+    const normals = new Array(part.positions.length).fill(0);
+    const at = (i: number): Vector3 => [part.positions[3*i], part.positions[3*i + 1], part.positions[3*i + 2]];
+    for (let i = 0; i < part.indices.length; i += 3) {
+        const triangle = part.indices.slice(i, i + 3), n = triangleNormal(at(triangle[0]), at(triangle[1]), at(triangle[2]));
+        for (let v of triangle) {
+            normals[3*v] += n[0];
+            normals[3*v + 1] += n[1];
+            normals[3*v + 2] += n[2];
+        }
+    }
+    for (let i = 0; i < normals.length; i += 3) {
+        const len = Math.hypot(normals[i], normals[i + 1], normals[i + 2]) || 1;
+        part.normals.push(normals[i] / len, normals[i + 1] / len, normals[i + 2] / len);
+    }
+    return part;
+}
+
+export function terrainMesh(layers: Layer[], options?: Partial<TerrainOptions>): MeshPart[] {
+    const opts = {...defaultTerrainOptions, ...options};
+    const {interval, margin} = opts, height = (elevation: number) => elevation * opts.verticalExaggeration;
+
+    //the layers as multiples of the interval, with their flattened rings
+    const levels = new Map(layers.map(l => [Math.round(l.elevation / interval), <Level>{
+        layer: l,
+        rings: layerCurves(l).map(c => flattenCurve(c, opts.stepsPerSegment)).filter(r => r.length >= 3)
+    }]));
+    const ringsAt = (k: number) => levels.get(k)?.rings ?? [];
+
+    const allPoints = [...levels.values()].flatMap(l => l.rings.flat());
+    const bounds = allPoints.length > 0 ? getBoundingRect(allPoints) : { x: 0, y: 0, width: 0, height: 0 };
+    const ground = [
+        { x: bounds.x - margin, y: bounds.y - margin },
+        { x: bounds.x + bounds.width + margin, y: bounds.y - margin },
+        { x: bounds.x + bounds.width + margin, y: bounds.y + bounds.height + margin },
+        { x: bounds.x - margin, y: bounds.y + bounds.height + margin }
+    ];
+
+    if (opts.style === 'surface') {
+        const part = surfacePart(levels, ground, opts);
+        part.positions = part.positions.map(c => c * opts.scale);
+        return [part];
+    }
+
+    const builder = new PartBuilder();
+    //the bands, each between its own contours and the next ones away from the ground
+    for (let k of [0, ...levels.keys()]) {
+        const rings = k === 0 ? [ground, ...ringsAt(1), ...ringsAt(-1)] : [...ringsAt(k), ...ringsAt(k > 0 ? k + 1 : k - 1)];
+        const color = k === 0 ? opts.groundColor : levels.get(k).layer.color;
+        for (let {outer, holes} of evenOddPolygons(rings)) {
+            builder.polygon(color, outer, holes, height(k * interval), true);
+        }
+    }
+
+    if (opts.style === 'solid') {
+        //hills rise from the band below, depressions sink from the one above
+        for (let [k, {layer, rings}] of levels) {
+            const [bottom, top] = k > 0 ? [k - 1, k] : [k, k + 1];
+            for (let ring of rings) {
+                builder.wall(layer.color, ring, height(bottom * interval), height(top * interval), k < 0);
+            }
+        }
+        const lowest = Math.min(0, ...levels.keys()) * interval, base = height(lowest - opts.baseThickness);
+        builder.wall(opts.groundColor, ground, base, 0, false);
+        builder.polygon(opts.groundColor, ground, [], base, false);
+    }
+
+    const parts = [...builder.parts.values()];
+    for (let part of parts) {
+        part.positions = part.positions.map(c => c * opts.scale);
+    }
+    return parts;
+}
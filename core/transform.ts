@@ -0,0 +1,57 @@
+import {Point} from './geometry';
+
+/*
+ * Affine transforms of the plane, as in SVG and canvas: (x, y) -> (a x + c y + e, b x + d y + f).
+ * The y axis goes down, as in the editor, so positive angles turn clockwise on the screen.
+ */
+
+export interface Transform {
+    a: number;
+    b: number;
+    c: number;
+    d: number;
+    e: number;
+    f: number;
+}
+
+export const identityTransform: Transform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+export function translation(dx: number, dy: number): Transform {
+    return { ...identityTransform, e: dx, f: dy };
+}
+
+// Around the origin - negative factors mirror
+export function scaling(sx: number, sy: number, origin: Point = { x: 0, y: 0 }): Transform {
+    return { a: sx, b: 0, c: 0, d: sy, e: origin.x * (1 - sx), f: origin.y * (1 - sy) };
+}
+
+// By the angle in radians, around the origin
+export function rotation(angle: number, origin: Point = { x: 0, y: 0 }): Transform {
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    return {
+        a: cos, b: sin, c: -sin, d: cos,
+        e: origin.x - cos * origin.x + sin * origin.y,
+        f: origin.y - sin * origin.x - cos * origin.y
+    };
+}
+
+// The transform that does `first`, and then `then`
+export function composeTransforms(first: Transform, then: Transform): Transform {
+    return {
+        a: then.a * first.a + then.c * first.b,
+        b: then.b * first.a + then.d * first.b,
+        c: then.a * first.c + then.c * first.d,
+        d: then.b * first.c + then.d * first.d,
+        e: then.a * first.e + then.c * first.f + then.e,
+        f: then.b * first.e + then.d * first.f + then.f
+    };
+}
+
+export function applyTransform({a, b, c, d, e, f}: Transform, p: Point): Point {
+    return { x: a * p.x + c * p.y + e, y: b * p.x + d * p.y + f };
+}
+
+// For vectors, e.g. the control point diffs - they don't move with the translation
+export function applyLinear({a, b, c, d}: Transform, v: Point): Point {
+    return { x: a * v.x + c * v.y, y: b * v.x + d * v.y };
+}
@@ -0,0 +1,64 @@
+import {Pointset} from '../core';
+import {createProject, parseProject, projectToJson} from './project';
+import {defaultSettings} from './settings';
+
+/*
+ * Copying, cutting and pasting pointsets through the system clipboard - as a project (the format of the project files),
+ * so that they can be pasted into another project, browser tab or browser, or saved as a project file.
+ * Uses the copy/cut/paste events rather than the Clipboard API, which would need the user's permission to paste.
+ */
+
+export interface ClipboardCallbacks {
+    copy: () => Pointset[]; //what gets copied - nothing if nothing is selected
+    cut: () => void; //removes what just got copied
+    paste: (pointsets: Pointset[]) => void;
+}
+
+//the ones in text fields should do what they normally do
+function isEditingText(e: ClipboardEvent) {
+    return e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+}
+
+function copy(e: ClipboardEvent, pointsets: Pointset[]): boolean {
+    if (pointsets.length == 0) {
+        return false;
+    }
+    //the settings don't get pasted, they're only there to make it a valid project
+    const project = createProject("Clipboard", pointsets, defaultSettings);
+    e.clipboardData.setData('text/plain', projectToJson(project));
+    e.preventDefault();
+    return true;
+}
+
+function paste(e: ClipboardEvent, onPaste: (pointsets: Pointset[]) => void) {
+    const text = e.clipboardData.getData('text/plain').trim();
+    //anything else that's on the clipboard isn't meant for the editor
+    if (!text.startsWith('{') && !text.startsWith('[')) {
+        return;
+    }
+    e.preventDefault();
+    try {
+        onPaste(parseProject(text, "Clipboard").pointsets);
+    } catch (err) {
+        console.error(err);
+        window.alert("Couldn't paste: " + err.message);
+    }
+}
+
+export function setupClipboard(callbacks: ClipboardCallbacks) {
+    document.addEventListener('copy', e => {
+        if (!isEditingText(e)) {
+            copy(e, callbacks.copy());
+        }
+    });
+    document.addEventListener('cut', e => {
+        if (!isEditingText(e) && copy(e, callbacks.copy())) {
+            callbacks.cut();
+        }
+    });
+    document.addEventListener('paste', e => {
+        if (!isEditingText(e)) {
+            paste(e, callbacks.paste);
+        }
+    });
+}
@@ -0,0 +1,115 @@
+import {ContourOptions, Layer, Pointset} from '../core';
+import type {ContoursRequest, ContoursResponse} from './contours.worker';
+
+/*
+ * Contours computed by a web worker, so that heavy geometry doesn't freeze the editor.
+ *
+ * There's at most one request in flight. New requests made in the meantime supersede each other - only the latest one
+ * gets sent once the worker is free, the others are dropped without being computed. The one in flight gets to finish,
+ * unless it's been superseded for a long while - then it's cancelled by terminating the worker (it can't be interrupted
+ * otherwise) and starting a new one for the latest request. That one always finishes, so that even the computations
+ * that take longer than the patience (which get superseded all the time while dragging) show up now and then.
+ * A result still gets delivered if it's newer than the last delivered one, even when there's a newer request already.
+ * When a request fails, the last good contours stay.
+ */
+
+type ContoursCallback = (layers: Layer[]) => void;
+
+const patience = 1000; //how long a computation may go on (in ms) once it's superseded, before it gets cancelled
+
+let worker: Worker = null;
+let inFlight: ContoursRequest = null, queued: ContoursRequest = null;
+let mayCancel = true, cancelTimer: number = null;
+let lastId = 0, lastDeliveredId = 0, lastDelivered: Layer[] = [];
+let onContours: ContoursCallback = () => {};
+let waiting: {resolve: ContoursCallback, reject: (e: Error) => void}[] = [];
+
+export function setupContoursWorker(callback: ContoursCallback) {
+    onContours = callback;
+    startWorker();
+}
+
+function startWorker() {
+    worker = new Worker(new URL('./contours.worker.ts', import.meta.url));
+    worker.addEventListener('message', (e: MessageEvent<ContoursResponse>) => onResponse(e.data));
+    worker.addEventListener('error', e => {
+        //the request is lost, but the worker keeps going
+        console.error('Contour generation failed', e.message);
+        e.preventDefault();
+        finishInFlight();
+        sendQueued();
+        settleWaiting();
+    });
+}
+
+// The caller makes sure something changed since the previous request - it doesn't get compared
+export function requestContours(pointsets: Pointset[], options: Partial<ContourOptions>) {
+    //posting a message clones it, so later edits can't affect the request
+    queued = { id: ++lastId, pointsets, options };
+    sendQueued();
+}
+
+// The contours of the latest request once they're delivered (right away if they already are), e.g. for exporting them
+// without computing them again. Fails if the latest request does
+export function latestContours(): Promise<Layer[]> {
+    return new Promise((resolve, reject) => {
+        waiting.push({ resolve, reject });
+        settleWaiting();
+    });
+}
+
+function settleWaiting() {
+    const isDelivered = lastDeliveredId === lastId, hasFailed = !isDelivered && inFlight == null && queued == null;
+    if (isDelivered || hasFailed) {
+        const settled = waiting;
+        waiting = [];
+        settled.forEach(w => isDelivered ? w.resolve(lastDelivered) : w.reject(new Error("Couldn't generate the contours")));
+    }
+}
+
+function sendQueued() {
+    if (queued == null) {
+        return;
+    }
+    if (inFlight == null) {
+        inFlight = queued;
+        queued = null;
+        mayCancel = true;
+        worker.postMessage(inFlight);
+    } else if (cancelTimer == null && mayCancel) {
+        cancelTimer = window.setTimeout(cancelInFlight, patience);
+    }
+}
+
+function cancelInFlight() {
+    cancelTimer = null;
+    if (inFlight != null && queued != null) {
+        worker.terminate();
+        startWorker();
+        finishInFlight();
+        sendQueued();
+        mayCancel = false;
+    }
+}
+
+function finishInFlight() {
+    inFlight = null;
+    window.clearTimeout(cancelTimer);
+    cancelTimer = null;
+}
+
+function onResponse(response: ContoursResponse) {
+    if (response.id !== inFlight?.id) {
+        return; //from a cancelled request
+    }
+    finishInFlight();
+    if ('error' in response) {
+        console.error('Contour generation failed', response.error);
+    } else if (response.id > lastDeliveredId) {
+        lastDeliveredId = response.id;
+        lastDelivered = response.layers;
+        onContours(response.layers);
+    }
+    sendQueued();
+    settleWaiting();
+}
@@ -0,0 +1,24 @@
+import {ContourOptions, Layer, Pointset, generateContours} from '../core';
+
+/*
+ * Generates the contours off the UI thread - see contours.ts for the other side.
+ */
+
+export interface ContoursRequest {
+    id: number;
+    pointsets: Pointset[];
+    options: Partial<ContourOptions>;
+}
+
+export type ContoursResponse = { id: number, layers: Layer[] } | { id: number, error: string };
+
+addEventListener('message', (e: MessageEvent<ContoursRequest>) => {
+    const {id, pointsets, options} = e.data;
+    let response: ContoursResponse;
+    try {
+        response = { id, layers: generateContours(pointsets, options) };
+    } catch (err) {
+        response = { id, error: String(err?.stack ?? err) };
+    }
+    postMessage(response);
+});
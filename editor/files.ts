@@ -0,0 +1,26 @@
+// Saving to and loading from the user's files, through the browser
+
+export function downloadFile(fileName: string, content: BlobPart, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url));
+}
+
+// Lets the user pick a file and calls onLoad with its contents
+export function openTextFile(accept: string, onLoad: (text: string, fileName: string) => void) {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+        const file = input.files[0];
+        if (file != null) {
+            file.text().then(text => onLoad(text, file.name));
+        }
+    });
+    input.click();
+}
@@ -0,0 +1,7 @@
+import * as $ from 'jquery';
+
+// The editor's keyboard shortcuts don't work while an input has the focus, so the ones that only get clicked
+// (checkboxes and radio buttons) give it back as soon as they change
+export function releaseFocus(input: Element) {
+    $(input).filter('[type=checkbox], [type=radio]').trigger('blur');
+}
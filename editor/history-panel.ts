@@ -0,0 +1,29 @@
+import * as $ from 'jquery';
+import {History} from './history';
+
+/*
+ * The list of the undoable steps - clicking one undoes or redoes everything up to it.
+ */
+
+function formatTime(time: string) {
+    return new Date(time).toLocaleTimeString();
+}
+
+export function showHistory(history: History) {
+    const items = [
+        $('<li>').text("Start"),
+        ...history.entries.map(e => $('<li>').text(e.label).attr('title', new Date(e.time).toLocaleString())
+            .append($('<span class="time">').text(formatTime(e.time))))
+    ];
+    items.forEach((item, position) => item
+        .attr('data-position', position)
+        .toggleClass('current', position === history.position)
+        .toggleClass('undone', position > history.position));
+    $('#history-list').empty().append(items);
+    $('#history-list .current').get(0)?.scrollIntoView({ block: 'nearest' });
+}
+
+// Calls onJump with the position in the history (the number of steps applied) of the clicked item
+export function setupHistoryPanel(onJump: (position: number) => void) {
+    $('#history-list').on('click', 'li', e => onJump(Number($(e.currentTarget).attr('data-position'))));
+}
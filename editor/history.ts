@@ -0,0 +1,111 @@
+import {Pointset} from '../core';
+
+/*
+ * The undo history, as plain data so that it can be saved with the project and survives reloads.
+ *
+ * Every entry is one undoable step, made of operations on single pointsets, which they address by their ids:
+ * an operation has the pointset as it was before the step and as it was after (null when the step added or removed it).
+ * Undoing puts back the "before" copies, redoing the "after" ones, so the history can also jump to any of its states
+ * by undoing or redoing the steps in between.
+ */
+
+export interface Operation {
+    index: number; //of the pointset in the array of all of them - after the step, or before it when it got removed
+    before: Pointset;
+    after: Pointset;
+}
+
+export interface HistoryEntry {
+    label: string;
+    time: string; //ISO 8601
+    operations: Operation[];
+}
+
+export interface History {
+    entries: HistoryEntry[];
+    position: number; //how many of the entries are applied - the ones after it can be redone
+}
+
+const maxEntries = 200;
+
+export function emptyHistory(): History {
+    return { entries: [], position: 0 };
+}
+
+// A history from storage, if it looks like one
+export function isHistory(json: any): json is History {
+    return json != null && Array.isArray(json.entries) && Number.isInteger(json.position) &&
+        json.position >= 0 && json.position <= json.entries.length &&
+        json.entries.every((e: any) => typeof e?.label === 'string' && Array.isArray(e.operations));
+}
+
+export function copyPointset(ps: Pointset): Pointset {
+    return JSON.parse(JSON.stringify(ps));
+}
+
+// The operations that turn the pointsets before (copies made before a change) into the ones after it
+export function operationsBetween(before: Pointset[], after: Pointset[]): Operation[] {
+    const beforeById = new Map(before.map((ps, index) => [ps.id, { ps, index }])), afterIds = new Set(after.map(ps => ps.id));
+    const removed = before
+        .map((ps, index) => ({ index, before: ps, after: null as Pointset }))
+        .filter(op => !afterIds.has(op.before.id));
+    const addedOrChanged = after.flatMap((ps, index) => {
+        const previous = beforeById.get(ps.id)?.ps ?? null;
+        return previous == null || JSON.stringify(previous) !== JSON.stringify(ps) ?
+            [{ index, before: previous, after: copyPointset(ps) }] : [];
+    });
+    return [...removed, ...addedOrChanged];
+}
+
+// Adds a step that's already been applied to the pointsets. The steps that could've been redone are gone
+export function record(history: History, label: string, operations: Operation[]) {
+    if (operations.length == 0) {
+        return;
+    }
+    history.entries.splice(history.position, history.entries.length, { label, time: new Date().toJSON(), operations });
+    history.entries.splice(0, Math.max(0, history.entries.length - maxEntries));
+    history.position = history.entries.length;
+}
+
+function indexOfId(pointsets: Pointset[], id: string) {
+    const i = pointsets.findIndex(ps => ps.id === id);
+    if (i === -1) {
+        throw new Error(`The history doesn't match the drawing, there's no pointset ${id}`);
+    }
+    return i;
+}
+
+// Applies the operations of an entry forwards (redo) or backwards (undo) to the pointsets
+function applyEntry(pointsets: Pointset[], entry: HistoryEntry, forwards: boolean) {
+    const ops = entry.operations.map(op => forwards ? op : { index: op.index, before: op.after, after: op.before });
+    //removing first and then inserting from the lowest index up puts everything where it was
+    const removed = ops.filter(op => op.after == null), inserted = ops.filter(op => op.before == null),
+        changed = ops.filter(op => op.before != null && op.after != null);
+    for (let op of removed) {
+        pointsets.splice(indexOfId(pointsets, op.before.id), 1);
+    }
+    for (let op of [...inserted].sort((a, b) => a.index - b.index)) {
+        pointsets.splice(op.index, 0, copyPointset(op.after));
+    }
+    for (let op of changed) {
+        pointsets[indexOfId(pointsets, op.before.id)] = copyPointset(op.after);
+    }
+}
+
+// Undoes or redoes the steps between the current position and the given one. If one of them doesn't match
+// the pointsets, it throws and neither the pointsets nor the history change
+export function jumpTo(history: History, pointsets: Pointset[], position: number) {
+    //the steps put copies in place of the pointsets rather than changing them, so a shallow copy is enough
+    const jumped = [...pointsets];
+    let at = history.position;
+    while (at > position && at > 0) {
+        applyEntry(jumped, history.entries[at - 1], false);
+        --at;
+    }
+    while (at < position && at < history.entries.length) {
+        applyEntry(jumped, history.entries[at], true);
+        ++at;
+    }
+    pointsets.splice(0, pointsets.length, ...jumped);
+    history.position = at;
+}
@@ -0,0 +1,30 @@
+import {Pointset} from '../core';
+
+// Ids of the pointsets and their points - unique within a project, and kept when it's saved and loaded
+
+let counter = 0;
+
+export function newId(): string {
+    return Date.now().toString(36) + (counter++).toString(36) + Math.random().toString(36).slice(2, 6);
+}
+
+// A copy of the pointset, with new ids for it and its points - e.g. for pasting it into the same project again
+export function withNewIds(ps: Pointset): Pointset {
+    return {
+        ...ps,
+        id: newId(),
+        points: ps.points.map(p => ({ ...p, id: newId() })),
+        controlPointDiffs: ps.controlPointDiffs.map(d => ({ ...d }))
+    };
+}
+
+// Gives the pointsets and points without an id (e.g. ones saved before there were ids, or imported ones) a new one
+export function assignIds(pointsets: Pointset[]): Pointset[] {
+    for (let ps of pointsets) {
+        ps.id = ps.id ?? newId();
+        for (let p of ps.points) {
+            p.id = p.id ?? newId();
+        }
+    }
+    return pointsets;
+}
@@ -0,0 +1,95 @@
+import {Point, Pointset, areWindingClockwise, fromHandlePairs, handlePairs, pt, validDiffs} from '../core';
+import {newId} from './ids';
+
+/*
+ * Edits that make new pointsets out of existing ones - reversing, splitting and merging them, or taking parts of them.
+ * The points keep their handles, except where a segment goes to a different point than before.
+ */
+
+// The indices from `from` to `to` (both included), going around the n points
+function indicesAround(from: number, to: number, n: number): number[] {
+    const count = (to - from + n) % n + 1;
+    return Array.from({length: count}, (_, k) => (from + k) % n);
+}
+
+// The diffs of the points at the indices as a chain that gets closed (or joined) with other segments:
+// the first point's incoming and the last point's outgoing handles are on new segments, so they get none
+function chainDiffs(ps: Pointset, indices: number[]): [Point, Point][] {
+    const pairs = handlePairs(validDiffs(ps.controlPointDiffs, ps.points.length));
+    return indices.map((i, k) => [
+        k === 0 ? pt(0, 0) : pairs[i][0],
+        k === indices.length - 1 ? pt(0, 0) : pairs[i][1]
+    ]);
+}
+
+// With the pointset's diffs, unless it had none
+function withDiffs(ps: Pointset, points: Point[], pairs: [Point, Point][], ...sources: Pointset[]): Pointset {
+    const hasDiffs = sources.some(s => s.controlPointDiffs.length > 0);
+    return { ...ps, points, controlPointDiffs: hasDiffs ? fromHandlePairs(pairs) : [] };
+}
+
+// The indices (of a pointset with n points) grouped into runs of consecutive ones, going around -
+// e.g. [0, 1, 4, 6, 7] of 8 points are [[6, 7, 0, 1], [4]]
+export function runs(indices: number[], n: number): number[][] {
+    const sorted = [...new Set(indices)].sort((a, b) => a - b), result: number[][] = [];
+    for (let i of sorted) {
+        const current = result[result.length - 1];
+        if (current != null && current[current.length - 1] === i - 1) {
+            current.push(i);
+        } else {
+            result.push([i]);
+        }
+    }
+    //the last run goes on with the first one, unless it's all of them
+    if (result.length > 1 && result[0][0] === 0 && result[result.length - 1].includes(n - 1)) {
+        result[0] = [...result.pop(), ...result[0]];
+    }
+    return result;
+}
+
+// A pointset of the points at the indices (in that order), with the pointset's properties and id
+export function part(ps: Pointset, indices: number[]): Pointset {
+    return withDiffs(ps, indices.map(i => ps.points[i]), chainDiffs(ps, indices), ps);
+}
+
+// The same curve, going through the points the other way around
+export function reversed(ps: Pointset): Pointset {
+    const pairs = handlePairs(validDiffs(ps.controlPointDiffs, ps.points.length))
+        .map(([incoming, outgoing]) => [outgoing, incoming] as [Point, Point])
+        .reverse();
+    return withDiffs(ps, [...ps.points].reverse(), pairs, ps);
+}
+
+// Whether the segment between the points at i and j would split the pointset into two with at least 3 points each
+export function canSplit(ps: Pointset, i: number, j: number): boolean {
+    const n = ps.points.length, gap = Math.abs(i - j);
+    return i !== j && gap >= 2 && gap <= n - 2;
+}
+
+// The two pointsets on either side of the segment between the points at i and j. Both of them have these two points -
+// the second one gets copies with new ids, and a new id itself
+export function split(ps: Pointset, i: number, j: number): [Pointset, Pointset] {
+    const n = ps.points.length, first = indicesAround(i, j, n), second = indicesAround(j, i, n);
+    const secondPoints = second.map(k => k === i || k === j ? { ...ps.points[k], id: newId() } : ps.points[k]);
+    return [
+        withDiffs(ps, first.map(k => ps.points[k]), chainDiffs(ps, first), ps),
+        withDiffs({ ...ps, id: newId() }, secondPoints, chainDiffs(ps, second), ps)
+    ];
+}
+
+// One pointset out of two, by replacing the segment from point i of the first one (to the next one)
+// and the segment from point j of the second one with two segments between their ends. Has the first one's properties
+export function merge(first: Pointset, i: number, second: Pointset, j: number): Pointset {
+    if (areWindingClockwise(first.points) !== areWindingClockwise(second.points)) {
+        //otherwise the new segments cross each other
+        const m = second.points.length;
+        second = reversed(second);
+        j = (2 * m - 2 - j) % m;
+    }
+    const n = first.points.length, m = second.points.length,
+        firstIndices = indicesAround((i + 1) % n, i, n), secondIndices = indicesAround((j + 1) % m, j, m);
+    return withDiffs(first,
+        [...firstIndices.map(k => first.points[k]), ...secondIndices.map(k => second.points[k])],
+        [...chainDiffs(first, firstIndices), ...chainDiffs(second, secondIndices)],
+        first, second);
+}
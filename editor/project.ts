@@ -0,0 +1,215 @@
+import {ContourDirection, CurveType, JoinType, Pointset} from '../core';
+import {Settings, TerrainView, withDefaults} from './settings';
+import {assignIds} from './ids';
+
+/*
+ * The project format - what gets stored in the browser and in the downloaded project files. As JSON:
+ *
+ * {
+ *   "version": 3,
+ *   "name": "Islands",
+ *   "pointsets": [{
+ *     "id": "l2x5k0a3f9",                             unique in the project, like the ids of the points
+ *     "points": [{"id": "l2x5k1b7c2", "x": 200, "y": 150}, ...],   the polygon's corners, in px of the 2D view (y goes down)
+ *     "controlPointDiffs": [{"x": 0, "y": 0}, ...],   the handle overrides - none, or 2 per point (see core/handles.ts)
+ *     "elevation": 200,                               optional, settings.contours.defaultElevation if missing
+ *     "contourDirection": "outward",                  optional, "outward" or "inward"
+ *     "curve": {"type": "basis"}                      optional, straight lines if missing (see CurveStyle)
+ *   }, ...],
+ *   "settings": {"contours": {...}, "heightScale": 1, "terrainView": "terraces"}     all of Settings
+ * }
+ *
+ * Older versions get migrated when they're read:
+ *  0 - no version, either just the array of pointsets or {pointsets, settings} (with some of the settings missing)
+ *  1 - added the version and the name
+ *  2 - the settings are complete, and the control point diffs are either none or 2 per point
+ *  3 - the pointsets and their points have ids
+ */
+
+export interface Project {
+    version: number;
+    name: string;
+    pointsets: Pointset[];
+    settings: Settings;
+}
+
+export const projectVersion = 3;
+
+export function createProject(name: string, pointsets: Pointset[], settings: Settings): Project {
+    return { version: projectVersion, name, pointsets, settings };
+}
+
+export function projectToJson(project: Project): string {
+    return JSON.stringify(project, null, 2);
+}
+
+//migrations[v] takes a project of version v to version v + 1
+const migrations: ((json: any, name: string) => any)[] = [
+    (json, name) => Array.isArray(json) ?
+        { version: 1, name, pointsets: json, settings: {} } :
+        { version: 1, name, pointsets: json.pointsets, settings: json.settings ?? {} },
+    json => ({
+        ...json,
+        version: 2,
+        settings: isObject(json.settings) ? withDefaults(json.settings) : json.settings,
+        pointsets: Array.isArray(json.pointsets) ? json.pointsets.map(withValidDiffs) : json.pointsets
+    }),
+    json => ({
+        ...json,
+        version: 3,
+        pointsets: Array.isArray(json.pointsets) ? json.pointsets.map(withIds) : json.pointsets
+    })
+];
+
+//the editor used to ignore control point diffs that weren't 2 per point (or were missing) - now they're dropped
+function withValidDiffs(ps: any) {
+    if (!isObject(ps) || !Array.isArray(ps.points)) {
+        return ps;
+    }
+    const diffs = ps.controlPointDiffs, isValid = Array.isArray(diffs) && diffs.length === 2 * ps.points.length;
+    return diffs == null || (Array.isArray(diffs) && !isValid) ? { ...ps, controlPointDiffs: [] } : ps;
+}
+
+function withIds(ps: any) {
+    if (!isObject(ps) || !Array.isArray(ps.points)) {
+        return ps;
+    }
+    const copy = { ...ps, points: ps.points.map((p: any) => isObject(p) ? { ...p } : p) };
+    assignIds([copy]);
+    return copy;
+}
+
+function isObject(value: any): boolean {
+    return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function versionOf(json: any): number {
+    if (Array.isArray(json) || (isObject(json) && json.version == null)) {
+        return 0;
+    }
+    if (!isObject(json) || !Number.isInteger(json.version) || json.version < 0) {
+        throw new Error("Not a project file");
+    }
+    if (json.version > projectVersion) {
+        throw new Error(`The project is from a newer version of the editor (format ${json.version}, this one reads up to ${projectVersion})`);
+    }
+    return json.version;
+}
+
+const contourDirections: ContourDirection[] = ['outward', 'inward'];
+const curveTypes: CurveType[] = ['basis', 'cardinal', 'catmullRom', 'monotone', 'linear'];
+const joinTypes: JoinType[] = ['round', 'miter', 'bevel'];
+const terrainViews: TerrainView[] = ['terraces', 'surface'];
+const maxReportedProblems = 10;
+
+// What's wrong with a project of the current version, as "<path> should be ..." - nothing if it's valid
+export function projectProblems(json: any): string[] {
+    const problems: string[] = [];
+    const check = (isValid: boolean, path: string, expected: string) => {
+        if (!isValid) {
+            problems.push(`${path} should be ${expected}`);
+        }
+        return isValid;
+    };
+    const isNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+    const number = (value: any, path: string, isValid: (n: number) => boolean = () => true, expected = 'a number') =>
+        check(isNumber(value) && isValid(value), path, expected);
+    const oneOf = (value: any, options: string[], path: string) =>
+        check(options.includes(value), path, options.map(o => `"${o}"`).join(' or '));
+    const ids = new Set<string>();
+    const id = (value: any, path: string) => {
+        if (check(typeof value === 'string' && value !== '', path, 'a string') && check(!ids.has(value), path, 'unique')) {
+            ids.add(value);
+        }
+    };
+    const point = (value: any, path: string) =>
+        check(isObject(value), path, 'a point') && number(value.x, path + '.x') && number(value.y, path + '.y');
+    const points = (value: any, path: string, withIds = false) => {
+        if (!check(Array.isArray(value), path, 'an array of points')) {
+            return false;
+        }
+        value.forEach((p: any, i: number) => {
+            if (point(p, `${path}[${i}]`) && withIds) {
+                id(p.id, `${path}[${i}].id`);
+            }
+        });
+        return true;
+    };
+    const colors = (value: any, path: string) => {
+        if (check(Array.isArray(value) && value.length > 0, path, 'a non-empty array of colors')) {
+            value.forEach((c: any, i: number) => check(Number.isInteger(c) && c >= 0 && c <= 0xffffff, `${path}[${i}]`, 'a color (from 0 to 0xffffff)'));
+        }
+    };
+
+    if (!check(isObject(json), 'The project', 'an object')) {
+        return problems;
+    }
+    check(json.version === projectVersion, 'version', String(projectVersion));
+    check(typeof json.name === 'string', 'name', 'a string');
+    if (check(Array.isArray(json.pointsets), 'pointsets', 'an array')) {
+        json.pointsets.forEach((ps: any, i: number) => {
+            const path = `pointsets[${i}]`;
+            if (!check(isObject(ps), path, 'an object')) {
+                return;
+            }
+            id(ps.id, path + '.id');
+            if (points(ps.points, path + '.points', true) && points(ps.controlPointDiffs, path + '.controlPointDiffs')) {
+                check([0, 2 * ps.points.length].includes(ps.controlPointDiffs.length), path + '.controlPointDiffs',
+                    `empty or 2 per point (${2 * ps.points.length}), not ${ps.controlPointDiffs.length}`);
+            }
+            if (ps.elevation != null) {
+                number(ps.elevation, path + '.elevation');
+            }
+            if (ps.contourDirection != null) {
+                oneOf(ps.contourDirection, contourDirections, path + '.contourDirection');
+            }
+            if (ps.curve != null && check(isObject(ps.curve), path + '.curve', 'an object')) {
+                oneOf(ps.curve.type, curveTypes, path + '.curve.type');
+                ['tension', 'alpha'].filter(k => ps.curve[k] != null).forEach(k => number(ps.curve[k], `${path}.curve.${k}`));
+            }
+        });
+    }
+    if (check(isObject(json.settings), 'settings', 'an object')) {
+        const {contours, heightScale, terrainView} = json.settings;
+        if (check(isObject(contours), 'settings.contours', 'an object')) {
+            const positive = (n: number) => n > 0, path = 'settings.contours.';
+            number(contours.interval, path + 'interval', positive, 'a positive number');
+            number(contours.spacing, path + 'spacing', positive, 'a positive number');
+            number(contours.defaultElevation, path + 'defaultElevation');
+            colors(contours.colors, path + 'colors');
+            colors(contours.depressionColors, path + 'depressionColors');
+            oneOf(contours.join, joinTypes, path + 'join');
+            number(contours.miterLimit, path + 'miterLimit', n => n >= 1, 'at least 1');
+            number(contours.maxSegmentLength, path + 'maxSegmentLength', positive, 'a positive number');
+            oneOf(contours.smoothing, curveTypes, path + 'smoothing');
+        }
+        number(heightScale, 'settings.heightScale', n => n > 0, 'a positive number');
+        oneOf(terrainView, terrainViews, 'settings.terrainView');
+    }
+    return problems;
+}
+
+// The project as the current version, from the parsed JSON of any version. The name is for the versions without one.
+// Throws if it's not a valid project, with all (well, the first few) of the problems in the message
+export function readProject(json: any, name: string): Project {
+    let project = json;
+    for (let version = versionOf(json); version < projectVersion; ++version) {
+        project = migrations[version](project, name);
+    }
+    const problems = projectProblems(project);
+    if (problems.length > 0) {
+        const more = problems.length > maxReportedProblems ? [`... and ${problems.length - maxReportedProblems} more`] : [];
+        throw new Error(["Invalid project:", ...problems.slice(0, maxReportedProblems), ...more].join('\n'));
+    }
+    return project;
+}
+
+export function parseProject(text: string, name: string): Project {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Not a JSON file: " + e.message);
+    }
+    return readProject(json, name);
+}
@@ -0,0 +1,131 @@
+import * as $ from 'jquery';
+import {Project, createProject, parseProject, projectToJson} from './project';
+import {ProjectInfo, deleteProject, listProjects, loadProject, saveProject, uniqueName} from './storage';
+import {downloadFile, openTextFile} from './files';
+import {withDefaults} from './settings';
+
+/*
+ * The dialog for opening, saving as, duplicating and deleting the projects stored in the browser,
+ * and for downloading them as files or uploading them back.
+ */
+
+export interface ProjectsDialogCallbacks {
+    current: () => Project; //the open project, as it is now
+    open: (project: Project) => void;
+    savedAs: (name: string) => void; //the open project got saved under a new name, and should keep it
+}
+
+let callbacks: ProjectsDialogCallbacks;
+let projects: ProjectInfo[] = [];
+
+function dialog() {
+    return $('#projects-dialog').get(0) as HTMLDialogElement;
+}
+
+function selectedName(): string {
+    return $('#project-list').val() as string;
+}
+
+function reportError(action: string) {
+    return (e: Error) => {
+        console.error(e);
+        window.alert(`Couldn't ${action}: ${e.message}`);
+    };
+}
+
+function refresh(): Promise<void> {
+    return listProjects().then(list => {
+        projects = list;
+        const currentName = callbacks.current().name;
+        $('#project-list').empty().append(list.map(p => $('<option>')
+            .val(p.name)
+            .text(`${p.name} - ${p.modified.toLocaleString()}`)));
+        $('#project-list').val(currentName);
+        $('#project-name').val(currentName);
+        updateButtons();
+    }, reportError('list the projects'));
+}
+
+function updateButtons() {
+    const name = selectedName();
+    $('#project-open, #project-duplicate, #project-download').prop('disabled', name == null);
+    //the open project would just get saved again
+    $('#project-delete').prop('disabled', name == null || name === callbacks.current().name);
+}
+
+function names() {
+    return projects.map(p => p.name);
+}
+
+function open(project: Project) {
+    callbacks.open(project);
+    dialog().close();
+}
+
+function saveAs() {
+    const name = String($('#project-name').val()).trim(), current = callbacks.current();
+    $('#project-name').toggleClass('invalid', name === '');
+    if (name === '' || (name !== current.name && names().includes(name) && !window.confirm(`Replace the project "${name}"?`))) {
+        return;
+    }
+    saveProject({ ...current, name })
+        .then(() => callbacks.savedAs(name))
+        .then(refresh, reportError('save the project'));
+}
+
+function duplicate() {
+    loadProject(selectedName())
+        .then(project => saveProject({ ...project, name: uniqueName(project.name + ' copy', names()) }))
+        .then(refresh, reportError('duplicate the project'));
+}
+
+function remove() {
+    const name = selectedName();
+    if (window.confirm(`Delete the project "${name}"? This can't be undone.`)) {
+        deleteProject(name).then(refresh, reportError('delete the project'));
+    }
+}
+
+function createNew() {
+    const project = createProject(uniqueName('Untitled', names()), [], withDefaults(callbacks.current().settings));
+    saveProject(project).then(() => open(project), reportError('create the project'));
+}
+
+function download() {
+    const name = selectedName();
+    //the open one might have unsaved changes
+    const project = name === callbacks.current().name ? Promise.resolve(callbacks.current()) : loadProject(name);
+    project.then(p => downloadFile(`${p.name}.json`, projectToJson(p), 'application/json'), reportError('download the project'));
+}
+
+function upload() {
+    openTextFile('.json', (text, fileName) => {
+        let project: Project;
+        try {
+            project = parseProject(text, fileName.replace(/\.json$/i, ''));
+        } catch (e) {
+            reportError(`open ${fileName}`)(e);
+            return;
+        }
+        project = { ...project, name: uniqueName(project.name, names()) };
+        saveProject(project).then(() => open(project), reportError('save the uploaded project'));
+    });
+}
+
+export function setupProjectsDialog(dialogCallbacks: ProjectsDialogCallbacks) {
+    callbacks = dialogCallbacks;
+    $('#show-projects').on('click', () => refresh().then(() => dialog().showModal()));
+    $('#project-list').on('change', () => {
+        $('#project-name').val(selectedName()).removeClass('invalid');
+        updateButtons();
+    });
+    $('#project-list').on('dblclick', 'option', () => $('#project-open').trigger('click'));
+    $('#project-open').on('click', () => loadProject(selectedName()).then(open, reportError('open the project')));
+    $('#project-save-as').on('click', saveAs);
+    $('#project-duplicate').on('click', duplicate);
+    $('#project-delete').on('click', remove);
+    $('#project-new').on('click', createNew);
+    $('#project-download').on('click', download);
+    $('#project-upload').on('click', upload);
+    $('#project-close').on('click', () => dialog().close());
+}
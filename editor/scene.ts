@@ -0,0 +1,192 @@
+import * as BABYLON from 'babylonjs';
+import * as earcut from 'earcut';
+import {Contour, Curve, Layer, Point, layerCurves, terrainMesh, windingNumber} from '../core';
+import {Settings} from './settings';
+
+/*
+ * The 3D view. The 2D view gets repainted on every mouse move while dragging, so the scene isn't rebuilt from scratch:
+ * the meshes of every contour are kept under a key describing how they look, and only the contours whose key
+ * wasn't there before get new meshes (the ones whose key is gone get disposed). Plates of the same color share
+ * a material, and while dragging the updates are throttled.
+ */
+
+const viewHeight = 600; //the 2D view's y axis goes down, the scene's z axis up
+const throttleInterval = 150; //in ms
+
+let engine: BABYLON.Engine;
+let scene: BABYLON.Scene;
+let surfaceLight: BABYLON.HemisphericLight; //the terraces are unlit, only the continuous surface needs it
+
+let meshesByKey = new Map<string, BABYLON.Mesh[]>();
+const plateMaterials = new Map<number, BABYLON.StandardMaterial>();
+let surfaceMaterial: BABYLON.StandardMaterial = null;
+
+let pendingUpdate: {layers: Layer[], settings: Settings} = null, throttleTimer: number = null;
+
+export function setupScene(canvas: HTMLCanvasElement) {
+    engine = new BABYLON.Engine(canvas, true);
+    scene = new BABYLON.Scene(engine);
+
+    const width = 800, height = 600;
+    const offsetY = 1000;
+    const target = new BABYLON.Vector3(width/2, 0, height/2);
+    const camera = new BABYLON.ArcRotateCamera("camera", 0, 0, offsetY, target, scene, true);
+    camera.upVector = new BABYLON.Vector3(0, 0, 1);
+    camera.position = new BABYLON.Vector3(width/2, offsetY, height/2);
+    camera.attachControl(canvas, true);
+    scene.clearColor = BABYLON.Color4.FromColor3(BABYLON.Color3.White());
+    surfaceLight = new BABYLON.HemisphericLight("surface-light", new BABYLON.Vector3(0.3, 1, -0.2), scene);
+    surfaceLight.groundColor = new BABYLON.Color3(0.4, 0.4, 0.4);
+    surfaceLight.setEnabled(false);
+
+    engine.runRenderLoop(() => scene.render());
+}
+
+// Throttled updates (e.g. while dragging) happen at most every throttleInterval, with the latest layers.
+// An immediate one cancels the pending throttled update
+export function updateScene(layers: Layer[], settings: Settings, throttled = false) {
+    if (throttled) {
+        pendingUpdate = { layers, settings };
+        if (throttleTimer == null) {
+            throttleTimer = window.setTimeout(() => {
+                throttleTimer = null;
+                const update = pendingUpdate;
+                pendingUpdate = null;
+                syncScene(update.layers, update.settings);
+            }, throttleInterval);
+        }
+        return;
+    }
+    if (throttleTimer != null) {
+        window.clearTimeout(throttleTimer);
+        throttleTimer = null;
+        pendingUpdate = null;
+    }
+    syncScene(layers, settings);
+}
+
+function syncScene(layers: Layer[], settings: Settings) {
+    const wanted = new Map<string, () => BABYLON.Mesh[]>();
+    surfaceLight.setEnabled(settings.terrainView === 'surface');
+    if (settings.terrainView === 'surface') {
+        const {heightScale, contours: {interval, spacing}} = settings;
+        const key = ['surface', heightScale, interval, spacing, ...layers.map(l => l.elevation + ':' + l.color + ':' + layerKey(l))].join('|');
+        wanted.set(key, () => createSurfaceMeshes(layers, settings));
+    } else {
+        for (let i = 0; i < layers.length; ++i) {
+            const layer = layers[i], deeper = layers[i + 1], height = layer.elevation * settings.heightScale;
+            for (let contour of layer.contours) {
+                //depression plates would cover the deeper ones below them, so cut those out
+                const cutOut = layer.elevation < 0 && deeper != null ?
+                    deeper.contours.map(c => c.outer).filter(c => windingNumber(contour.outer.points, c.points[0]) !== 0) : [];
+                const key = [height, layer.color, ...[contour.outer, ...contour.holes].map(curveKey), 'cut out', ...cutOut.map(curveKey)].join('|');
+                wanted.set(key, () => createMeshForContour(contour, height, layer.color, cutOut));
+            }
+        }
+    }
+
+    for (let [key, meshes] of meshesByKey) {
+        if (!wanted.has(key)) {
+            //keeps the shared materials
+            meshes.forEach(m => m.dispose(false, false));
+        }
+    }
+    meshesByKey = new Map([...wanted].map(([key, create]) => [key, meshesByKey.get(key) ?? create()]));
+}
+
+function curveKey(curve: Curve): string {
+    return [...curve.points, ...curve.controlPoints].map(p => p.x.toFixed(2) + ',' + p.y.toFixed(2)).join(' ');
+}
+
+function layerKey(layer: Layer): string {
+    return layerCurves(layer).map(curveKey).join('/');
+}
+
+function plateMaterial(color: number): BABYLON.StandardMaterial {
+    if (!plateMaterials.has(color)) {
+        const material = new BABYLON.StandardMaterial('plate-material-' + color.toString(16), scene);
+        const toHsv = toColor3(color).toHSV();
+        const dampened = new BABYLON.Color3();
+        BABYLON.Color3.HSVtoRGBToRef(toHsv.r, toHsv.g * 0.4, toHsv.b * 1.05, dampened);
+        material.emissiveColor = dampened;
+        plateMaterials.set(color, material);
+    }
+    return plateMaterials.get(color);
+}
+
+function createSurfaceMeshes(layers: Layer[], settings: Settings): BABYLON.Mesh[] {
+    const [surface] = terrainMesh(layers, {
+        style: 'surface',
+        interval: settings.contours.interval,
+        spacing: settings.contours.spacing,
+        verticalExaggeration: settings.heightScale
+    });
+    const vertexData = new BABYLON.VertexData();
+    vertexData.positions = surface.positions.map((c, i) => i % 3 === 2 ? viewHeight - c : c);
+    vertexData.normals = surface.normals.map((c, i) => i % 3 === 2 ? -c : c);
+    vertexData.colors = surface.colors.flatMap((c, i) => i % 3 === 2 ? [c, 1] : [c]);
+    vertexData.indices = surface.indices;
+    const mesh = new BABYLON.Mesh("surface", scene);
+    vertexData.applyToMesh(mesh);
+    if (surfaceMaterial == null) {
+        surfaceMaterial = new BABYLON.StandardMaterial("surface-material", scene);
+        surfaceMaterial.specularColor = BABYLON.Color3.Black();
+        surfaceMaterial.backFaceCulling = false;
+    }
+    mesh.material = surfaceMaterial;
+
+    //contour lines, slightly above the surface so that it doesn't hide them
+    const lines = layers.flatMap(layer => layerCurves(layer).filter(isValidCurve).map(c => {
+        const linesMesh = BABYLON.Mesh.CreateLines("surface-lines", curvePoints3d(c, layer.elevation * settings.heightScale + 0.5), scene);
+        linesMesh.color = toColor3(layer.color);
+        return linesMesh;
+    }));
+    return [mesh, ...lines];
+}
+
+function isValidCurve(curve: Curve) {
+    return curve.points.length > 2 && curve.points.length * 2 - 2 === curve.controlPoints.length;
+}
+
+function curvePoints3d(curve: Curve, height: number): BABYLON.Vector3[] {
+    let curve3d: BABYLON.Curve3 = null;
+    for (let i = 0; i < curve.points.length - 1; ++i) {
+        const p0 = curve.points[i],
+            cp0 = curve.controlPoints[2*i],
+            cp1 = curve.controlPoints[2*i + 1],
+            p1 = curve.points[i + 1];
+        const toVector = (p: Point) => new BABYLON.Vector3(p.x, height, viewHeight - p.y);
+        const currentCurve = BABYLON.Curve3.CreateCubicBezier(toVector(p0), toVector(cp0), toVector(cp1), toVector(p1), 10);
+        if (i === 0) {
+            curve3d = currentCurve;
+        } else {
+            curve3d = curve3d.continue(currentCurve);
+        }
+    }
+    return curve3d.getPoints();
+}
+
+function createMeshForContour(contour: Contour, height: number, color: number, cutOut: Curve[] = []): BABYLON.Mesh[] {
+    if (!isValidCurve(contour.outer)) {
+        return [];
+    }
+    const result = [];
+    const shape = curvePoints3d(contour.outer, height),
+        holes = contour.holes.filter(isValidCurve).map(h => curvePoints3d(h, height)),
+        cutOutShapes = cutOut.filter(isValidCurve).map(c => curvePoints3d(c, height));
+    const curveMesh = BABYLON.MeshBuilder.CreatePolygon("plate", {shape, holes: [...holes, ...cutOutShapes], sideOrientation: BABYLON.Mesh.DOUBLESIDE}, scene, earcut);
+    curveMesh.material = plateMaterial(color);
+    curveMesh.translate(new BABYLON.Vector3(0, 1, 0), height);
+    result.push(curveMesh);
+
+    [shape, ...holes].forEach(pts => {
+        const linesMesh = BABYLON.Mesh.CreateLines("plate-lines", pts, scene);
+        linesMesh.color = toColor3(color);
+        result.push(linesMesh);
+    });
+    return result;
+}
+
+function toColor3(color: number): BABYLON.Color3 {
+    return BABYLON.Color3.FromInts((color & 0xff0000) >> 16, (color & 0x00ff00) >> 8, (color & 0x0000ff));
+}
@@ -0,0 +1,98 @@
+import * as $ from 'jquery';
+import {ContourOptions, CurveType, JoinType, defaultContourOptions} from '../core';
+
+// Flat plates at the contours' elevations, or a continuous surface sloping between them
+export type TerrainView = 'terraces' | 'surface';
+
+export interface Settings {
+    contours: ContourOptions;
+    heightScale: number; //vertical exaggeration of the 3D view
+    terrainView: TerrainView;
+}
+
+export const defaultSettings: Settings = {
+    contours: defaultContourOptions,
+    heightScale: 1,
+    terrainView: 'terraces'
+};
+
+// Fills in whatever is missing (e.g. settings saved before an option was added) with the defaults
+export function withDefaults(settings?: Partial<Settings>): Settings {
+    return {
+        ...defaultSettings,
+        ...settings,
+        contours: {...defaultSettings.contours, ...settings?.contours}
+    };
+}
+
+function formatColors(colors: number[]) {
+    return colors.map(c => '#' + c.toString(16).padStart(6, '0')).join(', ');
+}
+
+//Comma-separated hex colors, with or without a leading #
+function parseColors(text: string): number[] {
+    const colors = text.split(',').map(c => c.trim().replace(/^#/, ''));
+    if (colors.length == 0 || colors.some(c => !/^[0-9a-f]{6}$/i.test(c))) {
+        return null;
+    }
+    return colors.map(c => parseInt(c, 16));
+}
+
+function numberField(id: string, isValid: (n: number) => boolean): number {
+    const field = $('#' + id), value = Number(field.val());
+    const valid = field.val() !== '' && !isNaN(value) && isValid(value);
+    field.toggleClass('invalid', !valid);
+    return valid ? value : null;
+}
+
+function colorsField(id: string): number[] {
+    const field = $('#' + id), colors = parseColors(String(field.val()));
+    field.toggleClass('invalid', colors == null);
+    return colors;
+}
+
+function readSettings(): Settings {
+    const positive = (n: number) => n > 0;
+    const contours = {
+        interval: numberField('contour-interval', positive),
+        spacing: numberField('contour-spacing', positive),
+        defaultElevation: numberField('default-elevation', () => true),
+        colors: colorsField('contour-colors'),
+        depressionColors: colorsField('depression-colors'),
+        join: $('#contour-join').val() as JoinType,
+        miterLimit: numberField('miter-limit', n => n >= 1),
+        maxSegmentLength: numberField('max-segment-length', positive),
+        smoothing: $('#contour-smoothing').val() as CurveType
+    };
+    const heightScale = numberField('height-scale', positive), terrainView = $('#terrain-view').val() as TerrainView;
+    const values: any[] = [...Object.values(contours), heightScale];
+    return values.some(v => v == null) ? null : { contours, heightScale, terrainView };
+}
+
+export function showSettings(settings: Settings) {
+    const {contours} = settings;
+    $('#contour-interval').val(contours.interval);
+    $('#contour-spacing').val(contours.spacing);
+    $('#default-elevation').val(contours.defaultElevation);
+    $('#contour-colors').val(formatColors(contours.colors));
+    $('#depression-colors').val(formatColors(contours.depressionColors));
+    $('#contour-join').val(contours.join);
+    $('#miter-limit').val(contours.miterLimit).prop('disabled', contours.join !== 'miter');
+    $('#max-segment-length').val(contours.maxSegmentLength);
+    $('#contour-smoothing').val(contours.smoothing);
+    $('#height-scale').val(settings.heightScale);
+    $('#terrain-view').val(settings.terrainView);
+    $('#settings-panel .invalid').removeClass('invalid');
+}
+
+// Calls onChange with the new settings whenever a field changes (and all of them are valid)
+export function setupSettingsPanel(onChange: (settings: Settings) => void) {
+    $('#settings-panel').on('change', 'input, select', () => {
+        const settings = readSettings();
+        if (settings != null) {
+            $('#miter-limit').prop('disabled', settings.contours.join !== 'miter');
+            onChange(settings);
+        }
+    });
+    $('#reset-settings').on('click', () => onChange(defaultSettings));
+}
@@ -0,0 +1,125 @@
+import * as $ from 'jquery';
+import {Point, Segment, closestPointOnSegment, distancePts} from '../core';
+import {releaseFocus} from './focus';
+
+/*
+ * Snapping of the points that get added or dragged - to the points and edges of the other pointsets nearby, and to the grid.
+ * With Shift, the segment from the previous point goes at a multiple of 15 degrees instead.
+ * The options are the editor's, not the project's - they're kept in localStorage.
+ */
+
+export interface SnapOptions {
+    showGrid: boolean;
+    gridSize: number; //in px
+    toGrid: boolean;
+    toPoints: boolean;
+    toEdges: boolean;
+}
+
+export const defaultSnapOptions: SnapOptions = {
+    showGrid: false,
+    gridSize: 20,
+    toGrid: false,
+    toPoints: true,
+    toEdges: false
+};
+
+export type SnapKind = 'point' | 'edge' | 'grid' | 'angle';
+
+export interface Snap {
+    at: Point;
+    kind: SnapKind;
+    from?: Point; //the previous point, for the angle
+}
+
+// What's around the point being placed
+export interface SnapTargets {
+    points: Point[];
+    edges: Segment[];
+    previous: Point; //the one before it in its pointset, null if there's none
+}
+
+const angleStep = Math.PI / 12;
+const storageKey = "snapOptions";
+
+function closest<T>(items: T[], distanceTo: (item: T) => number, maxDistance: number): T {
+    let result: T = null, resultDistance = maxDistance;
+    for (let item of items) {
+        const d = distanceTo(item);
+        if (d <= resultDistance) {
+            result = item;
+            resultDistance = d;
+        }
+    }
+    return result;
+}
+
+// The point along the direction from `from` closest to `to`, out of the directions at multiples of the angle step
+export function constrainAngle(from: Point, to: Point): Point {
+    const angle = Math.round(Math.atan2(to.y - from.y, to.x - from.x) / angleStep) * angleStep,
+        direction = { x: Math.cos(angle), y: Math.sin(angle) },
+        length = (to.x - from.x) * direction.x + (to.y - from.y) * direction.y;
+    return { x: from.x + direction.x * length, y: from.y + direction.y * length };
+}
+
+// Where coords snap to (points first, then edges, then the grid) - null if nothing's within the radius and the grid is off
+export function snap(coords: Point, targets: SnapTargets, options: SnapOptions, radius: number, constrain: boolean): Snap {
+    if (constrain && targets.previous != null) {
+        return { at: constrainAngle(targets.previous, coords), kind: 'angle', from: targets.previous };
+    }
+    const point = options.toPoints ? closest(targets.points, p => distancePts(p, coords), radius) : null;
+    if (point != null) {
+        return { at: { x: point.x, y: point.y }, kind: 'point' };
+    }
+    const onEdges = options.toEdges ? targets.edges.map(e => closestPointOnSegment(coords, e)) : [],
+        onEdge = closest(onEdges, p => distancePts(p, coords), radius);
+    if (onEdge != null) {
+        return { at: onEdge, kind: 'edge' };
+    }
+    if (options.toGrid) {
+        const size = options.gridSize;
+        return { at: { x: Math.round(coords.x / size) * size, y: Math.round(coords.y / size) * size }, kind: 'grid' };
+    }
+    return null;
+}
+
+export function loadSnapOptions(): SnapOptions {
+    try {
+        return { ...defaultSnapOptions, ...JSON.parse(window.localStorage.getItem(storageKey) ?? '{}') };
+    } catch (e) {
+        console.error("Couldn't read the snap options", e);
+        return defaultSnapOptions;
+    }
+}
+
+function saveSnapOptions(options: SnapOptions) {
+    window.localStorage.setItem(storageKey, JSON.stringify(options));
+}
+
+export function showSnapOptions(options: SnapOptions) {
+    $('#show-grid').prop('checked', options.showGrid);
+    $('#grid-size').val(options.gridSize).removeClass('invalid');
+    $('#snap-to-grid').prop('checked', options.toGrid);
+    $('#snap-to-points').prop('checked', options.toPoints);
+    $('#snap-to-edges').prop('checked', options.toEdges);
+}
+
+// Calls onChange with the new options (after saving them) whenever a field changes and the grid size is valid
+export function setupSnapOptions(onChange: (options: SnapOptions) => void) {
+    $('#snap-options').on('change', 'input', e => {
+        releaseFocus(e.currentTarget);
+        const gridSize = Number($('#grid-size').val()), isValid = Number.isFinite(gridSize) && gridSize > 0;
+        $('#grid-size').toggleClass('invalid', !isValid);
+        if (isValid) {
+            const options = {
+                showGrid: $('#show-grid').prop('checked'),
+                gridSize,
+                toGrid: $('#snap-to-grid').prop('checked'),
+                toPoints: $('#snap-to-points').prop('checked'),
+                toEdges: $('#snap-to-edges').prop('checked')
+            };
+            saveSnapOptions(options);
+            onChange(options);
+        }
+    });
+}
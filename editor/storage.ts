@@ -0,0 +1,143 @@
+import {Project, readProject} from './project';
+import {History, emptyHistory, isHistory} from './history';
+
+/*
+ * The projects saved in the browser, in IndexedDB - by name, and kept until they're deleted.
+ * The editor's state (the undo history and the selection) is kept next to the project, and isn't part of the project files.
+ * The history has a store of its own, so that it only gets written when it changes - it can get much bigger than the project.
+ */
+
+export interface EditorState {
+    history: History;
+    selection: string[]; //ids of the selected points
+}
+
+export interface ProjectInfo {
+    name: string;
+    modified: Date;
+}
+
+interface StoredProject extends ProjectInfo {
+    project: Project;
+    history?: History; //before the histories had their own store
+    selection?: string[];
+}
+
+interface StoredHistory {
+    name: string; //of the project
+    history: History;
+}
+
+const dbName = 'topological-maps', storeName = 'projects', historyStoreName = 'histories';
+let db: Promise<IDBDatabase> = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (db == null) {
+        db = new Promise((resolve, reject) => {
+            const request = indexedDB.open(dbName, 2);
+            request.onupgradeneeded = e => {
+                [storeName, historyStoreName]
+                    .filter(name => !request.result.objectStoreNames.contains(name))
+                    .forEach(name => request.result.createObjectStore(name, { keyPath: 'name' }));
+                if (e.oldVersion == 1) {
+                    moveHistories(request.transaction);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+    return db;
+}
+
+//the first version kept the histories in the projects' records
+function moveHistories(transaction: IDBTransaction) {
+    const projects = transaction.objectStore(storeName), histories = transaction.objectStore(historyStoreName);
+    const all = projects.getAll() as IDBRequest<StoredProject[]>;
+    all.onsuccess = () => all.result.filter(stored => stored.history != null).forEach(({history, ...stored}) => {
+        histories.put(<StoredHistory>{ name: stored.name, history });
+        projects.put(stored);
+    });
+}
+
+// The operation makes the requests and gives back how to get the result out of them once they're done
+function withStores<T>(names: string[], mode: IDBTransactionMode, operation: (transaction: IDBTransaction) => () => T): Promise<T> {
+    return openDb().then(db => new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(names, mode), result = operation(transaction);
+        //resolve once it's committed, so that e.g. a project that was just saved shows up in the list
+        transaction.oncomplete = () => resolve(result());
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    }));
+}
+
+function withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    return withStores([storeName], mode, transaction => {
+        const request = operation(transaction.objectStore(storeName));
+        return () => request.result;
+    });
+}
+
+// The most recently modified first
+export function listProjects(): Promise<ProjectInfo[]> {
+    return withStore('readonly', store => store.getAll() as IDBRequest<StoredProject[]>)
+        .then(stored => stored
+            .map(({name, modified}) => ({ name, modified }))
+            .sort((a, b) => b.modified.getTime() - a.modified.getTime()));
+}
+
+export function loadProject(name: string): Promise<Project> {
+    return withStore('readonly', store => store.get(name) as IDBRequest<StoredProject>)
+        .then(stored => {
+            if (stored == null) {
+                throw new Error(`There's no project named "${name}"`);
+            }
+            //it might have been saved by an older version
+            return readProject(stored.project, stored.name);
+        });
+}
+
+// The editor's state saved with the project - no history and nothing selected if there's none
+export function loadEditorState(name: string): Promise<EditorState> {
+    return withStores([storeName, historyStoreName], 'readonly', transaction => {
+        const project = transaction.objectStore(storeName).get(name) as IDBRequest<StoredProject>,
+            history = transaction.objectStore(historyStoreName).get(name) as IDBRequest<StoredHistory>;
+        return () => ({ stored: project.result, history: history.result?.history });
+    }).then(({stored, history}) => ({
+        history: isHistory(history) ? history : emptyHistory(),
+        selection: Array.isArray(stored?.selection) ? stored.selection.filter(id => typeof id === 'string') : []
+    }));
+}
+
+// Overwrites the project with the same name, if there's one. Without the editor's state it has no history and nothing
+// selected - with the state but without its history, the history that's saved stays as it is
+export function saveProject(project: Project, state?: Partial<EditorState>): Promise<void> {
+    const stored: StoredProject = { name: project.name, modified: new Date(), project, selection: state?.selection };
+    return withStores([storeName, historyStoreName], 'readwrite', transaction => {
+        transaction.objectStore(storeName).put(stored);
+        const histories = transaction.objectStore(historyStoreName);
+        if (state?.history != null) {
+            histories.put(<StoredHistory>{ name: project.name, history: state.history });
+        } else if (state == null) {
+            histories.delete(project.name);
+        }
+        return () => {};
+    });
+}
+
+export function deleteProject(name: string): Promise<void> {
+    return withStores([storeName, historyStoreName], 'readwrite', transaction => {
+        transaction.objectStore(storeName).delete(name);
+        transaction.objectStore(historyStoreName).delete(name);
+        return () => {};
+    });
+}
+
+// The name, or the name with the lowest number after it that isn't taken
+export function uniqueName(name: string, taken: string[]): string {
+    let result = name;
+    for (let i = 2; taken.includes(result); ++i) {
+        result = `${name} (${i})`;
+    }
+    return result;
+}
@@ -0,0 +1,42 @@
+import * as $ from 'jquery';
+import {SimplifyMethod} from '../core';
+import {releaseFocus} from './focus';
+
+/*
+ * The tool palette - what clicks in the 2D view do. With every tool, clicking a point selects it and points can be dragged:
+ *  select  - nothing else, clicks never create points
+ *  add     - adds a point after the last selected one, or starts a new pointset when none is selected.
+ *            Clicking the first point of the pointset being drawn finishes it
+ *  insert  - adds a point to the closest edge, where it was clicked
+ *  split   - with a point selected, clicking another one of its pointset splits it in two along the line between them
+ *  merge   - clicking an edge of one pointset and then one of another joins them into one, in place of the two edges
+ *  reverse - clicking a point or an edge of a pointset reverses the order of its points
+ *  pen     - dragging draws a new pointset freehand, simplified with the method and tolerance of the pen options
+ */
+
+export type Tool = 'select' | 'add' | 'insert' | 'split' | 'merge' | 'reverse' | 'pen';
+
+export interface PenOptions {
+    method: SimplifyMethod;
+    tolerance: number; //in px
+}
+
+//the keyboard shortcuts
+export const toolKeys: { [key: string]: Tool } = { v: 'select', n: 'add', e: 'insert', x: 'split', m: 'merge', r: 'reverse', p: 'pen' };
+
+export function showTool(tool: Tool) {
+    $(`#tool-palette input[value=${tool}]`).prop('checked', true);
+    $('#pen-options').toggle(tool === 'pen');
+}
+
+export function penOptions(): PenOptions {
+    return { method: $('#pen-method').val() as SimplifyMethod, tolerance: Number($('#pen-tolerance').val()) };
+}
+
+export function setupToolPalette(onChange: (tool: Tool) => void) {
+    $('#tool-palette').on('change', 'input[name=tool]', e => {
+        releaseFocus(e.currentTarget);
+        onChange($(e.currentTarget).val() as Tool);
+    });
+    $('#pen-tolerance').on('input', () => $('#pen-tolerance-value').text(String($('#pen-tolerance').val())));
+}
@@ -0,0 +1,84 @@
+import {Point, Rectangle, Transform, distancePts, identityTransform, rotation, scaling, translation} from '../core';
+
+/*
+ * The box around the selected points and its handles: the corners and the middles of the sides scale the selection
+ * (from the opposite side), the one above the box rotates it around the pivot, and dragging inside the box moves it.
+ * The box is drawn a bit bigger than the points' bounds, so that the handles aren't on top of the points.
+ */
+
+export type BoxHandleKind = 'move' | 'scale' | 'rotate' | 'pivot';
+
+export interface BoxHandle {
+    kind: BoxHandleKind;
+    at: Point;
+    //for the scale handles - where on the box they are, from 0 (left/top) to 1 (right/bottom)
+    fx?: number;
+    fy?: number;
+}
+
+export const boxHandleSize = 8, boxPadding = 8, rotateHandleDistance = 24;
+const rotationStep = Math.PI / 12; //15 degrees, when snapping
+
+function pointOfBox(box: Rectangle, fx: number, fy: number): Point {
+    return { x: box.x + fx * box.width, y: box.y + fy * box.height };
+}
+
+export function paddedBox(box: Rectangle): Rectangle {
+    return { x: box.x - boxPadding, y: box.y - boxPadding, width: box.width + 2 * boxPadding, height: box.height + 2 * boxPadding };
+}
+
+// The scale handles (without the ones of the sides the box has no size along), the rotate handle and the pivot
+export function boxHandles(box: Rectangle, pivot: Point): BoxHandle[] {
+    const fractions = [0, 0.5, 1], scaleHandles: BoxHandle[] = [];
+    for (let fx of box.width > 0 ? fractions : [0.5]) {
+        for (let fy of box.height > 0 ? fractions : [0.5]) {
+            if (fx !== 0.5 || fy !== 0.5) {
+                scaleHandles.push({ kind: 'scale', at: pointOfBox(paddedBox(box), fx, fy), fx, fy });
+            }
+        }
+    }
+    return [
+        ...scaleHandles,
+        { kind: 'rotate', at: { x: box.x + box.width / 2, y: box.y - boxPadding - rotateHandleDistance } },
+        { kind: 'pivot', at: pivot }
+    ];
+}
+
+// The handle at coords, or the move "handle" if they're inside the box - null if neither
+export function boxHandleAt(box: Rectangle, pivot: Point, coords: Point): BoxHandle {
+    const handle = boxHandles(box, pivot).find(h => distancePts(h.at, coords) <= boxHandleSize);
+    if (handle != null) {
+        return handle;
+    }
+    const {x, y, width, height} = paddedBox(box);
+    const inside = coords.x >= x && coords.x <= x + width && coords.y >= y && coords.y <= y + height;
+    return inside ? { kind: 'move', at: coords } : null;
+}
+
+// What dragging the handle from `from` to `to` does to the selection, whose box and pivot were the given ones at the start.
+// Snapping keeps the proportions when scaling from a corner, and turns by multiples of 15 degrees when rotating
+export function dragTransform(handle: BoxHandle, box: Rectangle, pivot: Point, from: Point, to: Point, snap: boolean): Transform {
+    switch (handle.kind) {
+        case 'move':
+            return translation(to.x - from.x, to.y - from.y);
+        case 'scale': {
+            const anchor = pointOfBox(box, 1 - handle.fx, 1 - handle.fy);
+            const factor = (fromCoord: number, toCoord: number, anchorCoord: number, f: number) =>
+                f === 0.5 || fromCoord === anchorCoord ? 1 : (toCoord - anchorCoord) / (fromCoord - anchorCoord);
+            let sx = factor(from.x, to.x, anchor.x, handle.fx), sy = factor(from.y, to.y, anchor.y, handle.fy);
+            if (snap && handle.fx !== 0.5 && handle.fy !== 0.5) {
+                sx = sy = Math.abs(sx) > Math.abs(sy) ? sx : sy;
+            }
+            return scaling(sx, sy, anchor);
+        }
+        case 'rotate': {
+            let angle = Math.atan2(to.y - pivot.y, to.x - pivot.x) - Math.atan2(from.y - pivot.y, from.x - pivot.x);
+            if (snap) {
+                angle = Math.round(angle / rotationStep) * rotationStep;
+            }
+            return rotation(angle, pivot);
+        }
+        default:
+            return identityTransform;
+    }
+}
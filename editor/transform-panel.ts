@@ -0,0 +1,37 @@
+import * as $ from 'jquery';
+import {Point, Transform, composeTransforms, rotation, scaling, translation} from '../core';
+
+/*
+ * Numeric input for transforming the selected points - moving by an offset, rotating (clockwise, in degrees)
+ * and scaling (in %) around the pivot, and mirroring through it.
+ */
+
+//the transform, once the pivot is known
+export type PivotTransform = (pivot: Point) => Transform;
+
+function numberField(id: string, defaultValue: number): number {
+    const value = Number($(id).val());
+    return $(id).val() !== '' && Number.isFinite(value) ? value : defaultValue;
+}
+
+function fieldsTransform(pivot: Point): Transform {
+    const dx = numberField('#transform-dx', 0), dy = numberField('#transform-dy', 0),
+        angle = numberField('#transform-angle', 0) * Math.PI / 180,
+        sx = numberField('#transform-scale-x', 100) / 100, sy = numberField('#transform-scale-y', 100) / 100;
+    return [scaling(sx, sy, pivot), rotation(angle, pivot), translation(dx, dy)].reduce(composeTransforms);
+}
+
+// With nothing (or just one point) selected there's nothing to transform
+export function enableTransformPanel(enabled: boolean) {
+    $('#transform-panel input, #transform-panel button').prop('disabled', !enabled);
+}
+
+export function setupTransformPanel(onTransform: (label: string, transform: PivotTransform) => void) {
+    $('#apply-transform').on('click', () => onTransform("Transform selection", fieldsTransform));
+    $('#mirror-horizontal').on('click', () => onTransform("Mirror selection", pivot => scaling(-1, 1, pivot)));
+    $('#mirror-vertical').on('click', () => onTransform("Mirror selection", pivot => scaling(1, -1, pivot)));
+    $('#reset-transform').on('click', () => {
+        $('#transform-dx, #transform-dy, #transform-angle').val(0);
+        $('#transform-scale-x, #transform-scale-y').val(100);
+    });
+}
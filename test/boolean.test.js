@@ -0,0 +1,90 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {polygon, ringArea, union, intersection, difference, fillRings} = require('../out/core');
+const {rect, circle, totalArea, assertClose} = require('./helpers');
+
+describe('union', () => {
+    test('merges overlapping polygons', () => {
+        const result = union([polygon(rect(0, 0, 10, 10))], [polygon(rect(5, 5, 10, 10))]);
+        assert.equal(result.length, 1);
+        assert.equal(result[0].outer.length, 8);
+        assert.deepEqual(result[0].holes, []);
+        assertClose(totalArea(result), 175);
+    });
+
+    test('keeps disjoint polygons apart', () => {
+        const result = union([polygon(rect(0, 0, 10, 10)), polygon(rect(20, 0, 10, 10))]);
+        assert.equal(result.length, 2);
+        assertClose(totalArea(result), 200);
+    });
+
+    test('merges polygons sharing an edge, without the points in between', () => {
+        const result = union([polygon(rect(0, 0, 10, 10)), polygon(rect(10, 0, 10, 10))]);
+        assert.equal(result.length, 1);
+        assert.deepEqual(result[0].outer, [{x: 0, y: 0}, {x: 20, y: 0}, {x: 20, y: 10}, {x: 0, y: 10}]);
+    });
+
+    test('drops polygons inside other ones', () => {
+        const result = union([polygon(rect(0, 0, 100, 100)), polygon(rect(10, 10, 10, 10))]);
+        assert.equal(result.length, 1);
+        assertClose(totalArea(result), 10000);
+    });
+
+    test('leaves a hole where polygons enclose an empty space', () => {
+        const frame = [rect(0, 0, 30, 10), rect(0, 20, 30, 10), rect(0, 0, 10, 30), rect(20, 0, 10, 30)].map(r => polygon(r));
+        const result = union(frame);
+        assert.equal(result.length, 1);
+        assert.equal(result[0].holes.length, 1);
+        assertClose(ringArea(result[0].outer), 900);
+        assertClose(ringArea(result[0].holes[0]), -100);
+    });
+
+    test('orients the outer rings positively and the holes negatively, whatever the input', () => {
+        const result = union([polygon([...rect(0, 0, 30, 30)].reverse(), [rect(10, 10, 10, 10)])]);
+        assert.equal(result.length, 1);
+        assert.ok(ringArea(result[0].outer) > 0);
+        assert.ok(ringArea(result[0].holes[0]) < 0);
+    });
+
+    test('merges polygons with thousands of vertices', () => {
+        const r = 100, lens = 2 * r * r * Math.acos(0.5) - 50 * Math.sqrt(4 * r * r - 100 * 100);
+        const result = union([polygon(circle(0, 0, r, 3000))], [polygon(circle(100, 0, r, 3000))]);
+        assert.equal(result.length, 1);
+        assertClose(totalArea(result), 2 * Math.PI * r * r - lens, 1);
+    });
+
+    test("doesn't depend on the order of the operands", () => {
+        const a = [polygon(circle(0, 0, 10, 40))], b = [polygon(rect(5, -5, 20, 10))];
+        assert.deepEqual(union(a, b), union(b, a));
+    });
+});
+
+describe('intersection and difference', () => {
+    test('intersect overlapping rectangles', () => {
+        const result = intersection([polygon(rect(0, 0, 10, 10))], [polygon(rect(5, 5, 10, 10))]);
+        assert.equal(result.length, 1);
+        assertClose(totalArea(result), 25);
+    });
+
+    test('cut a hole out of a polygon', () => {
+        const result = difference([polygon(rect(0, 0, 30, 30))], [polygon(rect(10, 10, 10, 10))]);
+        assert.equal(result.length, 1);
+        assert.equal(result[0].holes.length, 1);
+        assertClose(totalArea(result), 800);
+    });
+});
+
+describe('fillRings', () => {
+    test('splits a self-intersecting ring into simple polygons', () => {
+        const bowtie = [{x: 0, y: 0}, {x: 10, y: 10}, {x: 10, y: 0}, {x: 0, y: 10}];
+        const result = fillRings([bowtie]);
+        assert.equal(result.length, 2);
+        assertClose(totalArea(result), 50);
+    });
+
+    test('follows the fill rule', () => {
+        const twice = [rect(0, 0, 10, 10), rect(0, 0, 10, 10)];
+        assertClose(totalArea(fillRings(twice, 'nonzero')), 100);
+        assert.deepEqual(fillRings(twice, 'evenodd'), []);
+    });
+});
@@ -0,0 +1,77 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {generateContours, defaultContourOptions, flattenCurve, ringArea} = require('../out/core');
+const {rect, assertClose} = require('./helpers');
+
+const options = {interval: 40, spacing: 20, smoothing: 'linear', join: 'miter'};
+
+function pointset(points, props = {}) {
+    return {points, controlPointDiffs: [], ...props};
+}
+
+// The area inside a layer's contours
+function layerArea(layer) {
+    return layer.contours.reduce((sum, c) =>
+        sum + Math.abs(ringArea(flattenCurve(c.outer))) - c.holes.reduce((s, h) => s + Math.abs(ringArea(flattenCurve(h))), 0), 0);
+}
+
+describe('generateContours', () => {
+    test('has a layer at every multiple of the interval up to the elevation, the highest first', () => {
+        const layers = generateContours([pointset(rect(0, 0, 100, 100), {elevation: 120})], options);
+        assert.deepEqual(layers.map(l => l.elevation), [120, 80, 40]);
+        assert.deepEqual(layers.map(l => l.color), defaultContourOptions.colors.slice(0, 3));
+        assert.ok(layers.every(l => l.contours.length == 1 && l.contours[0].holes.length == 0));
+    });
+
+    test('grows an outward pointset by the spacing at every layer down', () => {
+        const layers = generateContours([pointset(rect(0, 0, 100, 100), {elevation: 120})], options);
+        assert.deepEqual(layers.map(layerArea), [100 * 100, 140 * 140, 180 * 180]);
+    });
+
+    test('shrinks an inward pointset by the spacing at every layer up', () => {
+        const layers = generateContours([pointset(rect(0, 0, 100, 100), {elevation: 120, contourDirection: 'inward'})], options);
+        assert.deepEqual(layers.map(l => l.elevation), [120, 80, 40]);
+        assert.deepEqual(layers.map(layerArea), [20 * 20, 60 * 60, 100 * 100]);
+    });
+
+    test('drops the layers an inward pointset vanishes before', () => {
+        const layers = generateContours([pointset(rect(0, 0, 50, 50), {elevation: 160, contourDirection: 'inward'})], options);
+        assert.deepEqual(layers.map(l => l.elevation), [80, 40]);
+    });
+
+    test('uses the default elevation for pointsets without one', () => {
+        const layers = generateContours([pointset(rect(0, 0, 100, 100))], {...options, defaultElevation: 80});
+        assert.deepEqual(layers.map(l => l.elevation), [80, 40]);
+    });
+
+    test('makes depressions below 0, with their own colors', () => {
+        const layers = generateContours([pointset(rect(0, 0, 100, 100), {elevation: -80})], options);
+        assert.deepEqual(layers.map(l => l.elevation), [-40, -80]);
+        assert.deepEqual(layers.map(l => l.color), defaultContourOptions.depressionColors.slice(0, 2));
+        //the floor is the smallest, the rim around it bigger
+        assert.deepEqual(layers.map(layerArea), [140 * 140, 100 * 100]);
+    });
+
+    test('has hills and depressions side by side', () => {
+        const layers = generateContours([
+            pointset(rect(0, 0, 100, 100), {elevation: 80}),
+            pointset(rect(300, 0, 100, 100), {elevation: -40})
+        ], options);
+        assert.deepEqual(layers.map(l => l.elevation), [80, 40, -40]);
+    });
+
+    test('merges the contours of neighbouring hills once they touch', () => {
+        const layers = generateContours([
+            pointset(rect(0, 0, 100, 100), {elevation: 80}),
+            pointset(rect(130, 0, 100, 100), {elevation: 80})
+        ], options);
+        assert.deepEqual(layers.map(l => l.contours.length), [2, 1]);
+        assertClose(layerArea(layers[1]), 270 * 140);
+    });
+
+    test('leaves the pointsets at 0 and the ones with fewer than 3 points out', () => {
+        assert.deepEqual(generateContours([pointset(rect(0, 0, 100, 100), {elevation: 0})], options), []);
+        assert.deepEqual(generateContours([pointset([{x: 0, y: 0}, {x: 100, y: 0}], {elevation: 80})], options), []);
+        assert.deepEqual(generateContours([], options), []);
+    });
+});
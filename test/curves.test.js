@@ -0,0 +1,52 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {curvePoints, flattenCurve, bezierCurvePointAt} = require('../out/core');
+const {rect, circle, assertClose} = require('./helpers');
+
+describe('curvePoints', () => {
+    const square = rect(0, 0, 100, 100);
+
+    test('goes through the points in order and closes, with 2 control points per segment', () => {
+        for (const type of ['linear', 'cardinal', 'catmullRom']) {
+            const [points, controlPoints] = curvePoints(square, type);
+            //the closed d3 curves (all but the linear one) start at the second point
+            const start = square.findIndex(p => p.x === points[0].x && p.y === points[0].y);
+            assert.deepEqual(points, [...square.slice(start), ...square.slice(0, start + 1)], type);
+            assert.equal(controlPoints.length, 2 * square.length, type);
+        }
+    });
+
+    test('puts the control points of straight lines on them', () => {
+        const [, controlPoints] = curvePoints(square, 'linear');
+        assertClose(controlPoints[0].x, 100 / 3);
+        assertClose(controlPoints[1].x, 200 / 3);
+        assert.ok(controlPoints.slice(0, 2).every(cp => cp.y === 0));
+    });
+
+    test('rounds the corners off with a B-spline', () => {
+        const [points] = curvePoints(square, 'basis');
+        assert.equal(points.length, square.length + 1);
+        assert.deepEqual(points[0], points[square.length]);
+        for (const p of points) {
+            assert.ok(p.x > 0 && p.x < 100 && p.y > 0 && p.y < 100);
+        }
+    });
+});
+
+describe('flattenCurve', () => {
+    test('keeps just the end points of straight segments, without repeating the first point', () => {
+        const [points, controlPoints] = curvePoints(rect(0, 0, 100, 100), 'linear');
+        assert.deepEqual(flattenCurve({points, controlPoints}), rect(0, 0, 100, 100));
+    });
+
+    test('samples curved segments on the curve', () => {
+        const [points, controlPoints] = curvePoints(circle(0, 0, 100, 6), 'catmullRom'), steps = 8;
+        const flat = flattenCurve({points, controlPoints}, steps);
+        assert.equal(flat.length, 6 * steps);
+        assert.deepEqual(flat[3], bezierCurvePointAt(points[0], controlPoints[0], controlPoints[1], points[1], 3 / steps));
+        //close to the circle the curve goes through
+        for (const p of flat) {
+            assertClose(Math.hypot(p.x, p.y), 100, 10);
+        }
+    });
+});
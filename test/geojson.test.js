@@ -0,0 +1,28 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {fromGeoJson} = require('../out/core');
+
+describe('fromGeoJson', () => {
+    const square = {type: 'Polygon', coordinates: [[[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]]]};
+
+    test('reads the polygons of features, without repeating the first point', () => {
+        const pointsets = fromGeoJson({
+            type: 'FeatureCollection',
+            features: [{type: 'Feature', geometry: square, properties: {elevation: 50, contourDirection: 'inward'}}]
+        });
+        assert.equal(pointsets.length, 1);
+        assert.equal(pointsets[0].points.length, 4);
+        assert.equal(pointsets[0].elevation, 50);
+        assert.equal(pointsets[0].contourDirection, 'inward');
+    });
+
+    test('rejects features that are not objects', () => {
+        for (const feature of [null, 42, 'Feature']) {
+            assert.throws(() => fromGeoJson({type: 'FeatureCollection', features: [feature]}), /Not a valid GeoJSON object/);
+        }
+    });
+
+    test('rejects input without polygons', () => {
+        assert.throws(() => fromGeoJson({type: 'Point', coordinates: [0, 0]}), /No polygons found/);
+    });
+});
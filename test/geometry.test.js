@@ -0,0 +1,31 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {hasSelfIntersectingParts} = require('../out/core');
+const {rect, circle} = require('./helpers');
+
+describe('hasSelfIntersectingParts', () => {
+    test('is false for simple polygons', () => {
+        assert.equal(hasSelfIntersectingParts(rect(0, 0, 10, 10)), false);
+        assert.equal(hasSelfIntersectingParts([{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 5, y: 3}, {x: 0, y: 10}]), false);
+    });
+
+    test('is true when two segments cross', () => {
+        assert.equal(hasSelfIntersectingParts([{x: 0, y: 0}, {x: 10, y: 10}, {x: 10, y: 0}, {x: 0, y: 10}]), true);
+    });
+
+    test('is true when a point lies on another segment', () => {
+        assert.equal(hasSelfIntersectingParts([{x: 0, y: 0}, {x: 10, y: 0}, {x: 10, y: 10}, {x: 5, y: 0}, {x: 0, y: 10}]), true);
+    });
+
+    test('is true for a star drawn in one stroke', () => {
+        const star = [0, 2, 4, 1, 3].map(i => circle(0, 0, 10, 5)[i]);
+        assert.equal(hasSelfIntersectingParts(star), true);
+    });
+
+    test('finds crossings between far apart segments of polygons with many points', () => {
+        const round = circle(0, 0, 100, 200);
+        assert.equal(hasSelfIntersectingParts(round), false);
+        [round[50], round[150]] = [round[150], round[50]];
+        assert.equal(hasSelfIntersectingParts(round), true);
+    });
+});
@@ -0,0 +1,65 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {rasterizeHeightmap, heightmapImage} = require('../out/core');
+const {rect, layer, assertClose} = require('./helpers');
+
+// A hill with its top layer at 80 inside the one at 40, on a grid of 1 px pixels
+const layers = [layer(80, rect(20, 20, 20, 20)), layer(40, rect(10, 10, 40, 40))];
+const options = {width: 60, bounds: {x: 0, y: 0, width: 60, height: 60}, interval: 40, spacing: 20};
+
+function row(heightmap, y) {
+    return [...heightmap.elevations.subarray(y * heightmap.width, (y + 1) * heightmap.width)];
+}
+
+describe('rasterizeHeightmap', () => {
+    test('gives the stepped pixels the elevation of the highest layer they are in', () => {
+        const heightmap = rasterizeHeightmap(layers, {...options, interpolation: 'stepped'});
+        assert.equal(heightmap.height, 60);
+        assert.deepEqual(row(heightmap, 30), [
+            ...Array(10).fill(0), ...Array(10).fill(40), ...Array(20).fill(80), ...Array(10).fill(40), ...Array(10).fill(0)
+        ]);
+    });
+
+    test('slopes smoothly by the distances to the contours around the pixels', () => {
+        const elevations = row(rasterizeHeightmap(layers, {...options, interpolation: 'smooth'}), 30);
+        //outside, down to 0 over the spacing - the pixel centers are 10 and 1 px from the closest inside one
+        assertClose(elevations[0], 40 * (1 - 10 / 20), 1e-4);
+        assertClose(elevations[9], 40 * (1 - 1 / 20), 1e-4);
+        //between the contours, by the distances to the pixels on either side of them
+        assertClose(elevations[10], 40 + 40 * 1 / (1 + 10), 1e-4);
+        assertClose(elevations[19], 40 + 40 * 10 / (10 + 1), 1e-4);
+        assert.ok(elevations.slice(20, 40).every(e => e === 80));
+        assert.deepEqual(elevations.slice(30), elevations.slice(0, 30).reverse());
+    });
+
+    test('lets depressions win over the hills around them', () => {
+        const heightmap = rasterizeHeightmap([...layers, layer(-40, rect(25, 25, 10, 10))], {...options, interpolation: 'stepped'});
+        assert.equal(row(heightmap, 30)[30], -40);
+        assert.equal(row(heightmap, 30)[21], 80);
+    });
+
+    test('keeps the proportions of the bounds, which default to the contours plus the spacing', () => {
+        const heightmap = rasterizeHeightmap([layer(40, rect(0, 0, 160, 60))], {width: 100, spacing: 20});
+        assert.deepEqual(heightmap.bounds, {x: -20, y: -20, width: 200, height: 100});
+        assert.equal(heightmap.height, 50);
+    });
+
+    test('multiplies the elevations by the height scale', () => {
+        const heightmap = rasterizeHeightmap(layers, {...options, interpolation: 'stepped', heightScale: 2});
+        assert.equal(row(heightmap, 30)[30], 160);
+    });
+});
+
+describe('heightmapImage', () => {
+    test('stretches the elevations over all the gray levels', () => {
+        const image = heightmapImage({elevations: new Float32Array([-10, 0, 30])}, 8);
+        assert.deepEqual([...image.pixels], [0, 64, 255]);
+        assert.equal(image.minElevation, -10);
+        assert.equal(image.maxElevation, 30);
+        assert.deepEqual([...heightmapImage({elevations: new Float32Array([-10, 30])}, 16).pixels], [0, 65535]);
+    });
+
+    test('is black when the terrain is flat', () => {
+        assert.deepEqual([...heightmapImage({elevations: new Float32Array([5, 5])}, 8).pixels], [0, 0]);
+    });
+});
@@ -0,0 +1,39 @@
+const assert = require('node:assert/strict');
+const {ringArea, curvePoints} = require('../out/core');
+
+// An axis-aligned rectangle, as a ring
+function rect(x, y, width, height) {
+    return [{x, y}, {x: x + width, y}, {x: x + width, y: y + height}, {x, y: y + height}];
+}
+
+// A regular polygon with n vertices - a circle, with enough of them
+function circle(cx, cy, r, n) {
+    return Array.from({length: n}, (_, i) => {
+        const angle = 2 * Math.PI * i / n;
+        return {x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle)};
+    });
+}
+
+// The area of a polygon without its holes
+function polygonArea(poly) {
+    return ringArea(poly.outer) + poly.holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+}
+
+function totalArea(polygons) {
+    return polygons.reduce((sum, poly) => sum + polygonArea(poly), 0);
+}
+
+// A contour layer with one contour per ring, drawn with straight lines
+function layer(elevation, ...rings) {
+    const contours = rings.map(ring => {
+        const [points, controlPoints] = curvePoints(ring, 'linear');
+        return {outer: {points, controlPoints}, holes: []};
+    });
+    return {elevation, contours, color: 0};
+}
+
+function assertClose(actual, expected, tolerance = 1e-6) {
+    assert.ok(Math.abs(actual - expected) <= tolerance, `expected ${expected} (± ${tolerance}), got ${actual}`);
+}
+
+module.exports = {rect, circle, polygonArea, totalArea, layer, assertClose};
@@ -0,0 +1,77 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {toGlb, toObj, toStl} = require('../out/core');
+
+// A unit square facing up, and a triangle with smooth normals and vertex colors
+const parts = [
+    {color: 0xff0000, positions: [0, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1], indices: [0, 2, 1, 0, 3, 2]},
+    {color: 0x00ff00, positions: [0, 1, 0, 1, 1, 0, 0, 1, 1], indices: [0, 2, 1],
+        normals: [0, 1, 0, 0, 1, 0, 0, 1, 0], colors: [1, 1, 1, 0, 0, 0, 1, 0, 0]}
+];
+
+describe('toObj', () => {
+    test('writes the vertices with their colors, and faces indexed across the parts', () => {
+        const lines = toObj(parts).trim().split('\n');
+        assert.deepEqual(lines.filter(l => l.startsWith('o ')), ['o part0', 'o part1']);
+        assert.equal(lines.filter(l => l.startsWith('v ')).length, 7);
+        assert.equal(lines[2], 'v 0 0 0 1 0 0');
+        assert.deepEqual(lines.filter(l => l.startsWith('f ')), ['f 1 3 2', 'f 1 4 3', 'f 5//5 7//7 6//6']);
+        assert.equal(lines.filter(l => l.startsWith('vn ')).length, 3);
+    });
+});
+
+describe('toStl', () => {
+    test('writes every triangle with its normal, turned z-up', () => {
+        const stl = toStl(parts), view = new DataView(stl.buffer);
+        assert.equal(view.getUint32(80, true), 3);
+        assert.equal(stl.length, 84 + 3 * 50);
+        //the square faces up in y, so up in z after turning it
+        const normal = [0, 1, 2].map(i => view.getFloat32(84 + 4 * i, true) + 0); //no -0
+        assert.deepEqual(normal, [0, 0, 1]);
+        //the second vertex of the second triangle, (0, 0, 1) y-up
+        const vertex = [0, 1, 2].map(i => view.getFloat32(84 + 50 + 12 + 12 + 4 * i, true));
+        assert.deepEqual(vertex, [0, -1, 0]);
+    });
+});
+
+describe('toGlb', () => {
+    // The JSON and the binary chunk of a .glb
+    function readGlb(glb) {
+        const buffer = Buffer.from(glb);
+        assert.equal(buffer.toString('latin1', 0, 4), 'glTF');
+        assert.equal(buffer.readUInt32LE(4), 2);
+        assert.equal(buffer.readUInt32LE(8), buffer.length);
+        const jsonLength = buffer.readUInt32LE(12);
+        assert.equal(buffer.toString('latin1', 16, 20), 'JSON');
+        const binLength = buffer.readUInt32LE(20 + jsonLength);
+        assert.equal(buffer.toString('latin1', 24 + jsonLength, 28 + jsonLength), 'BIN\0');
+        assert.equal(jsonLength % 4, 0);
+        assert.equal(28 + jsonLength + binLength, buffer.length);
+        return {gltf: JSON.parse(buffer.toString('latin1', 20, 20 + jsonLength)), bin: buffer.subarray(28 + jsonLength)};
+    }
+
+    test('writes a primitive and a material per part, with the accessors pointing into the binary chunk', () => {
+        const {gltf, bin} = readGlb(toGlb(parts, true));
+        assert.equal(gltf.meshes[0].primitives.length, 2);
+        assert.ok(gltf.materials.every(m => m.doubleSided));
+        const [square, triangle] = gltf.meshes[0].primitives;
+        assert.deepEqual(Object.keys(square.attributes), ['POSITION']);
+        assert.deepEqual(Object.keys(triangle.attributes), ['POSITION', 'NORMAL', 'COLOR_0']);
+
+        const positions = gltf.accessors[square.attributes.POSITION];
+        assert.equal(positions.count, 4);
+        assert.deepEqual([positions.min, positions.max], [[0, 0, 0], [1, 0, 1]]);
+        const indices = gltf.accessors[square.indices], view = gltf.bufferViews[indices.bufferView];
+        assert.equal(indices.count, 6);
+        assert.equal(view.byteOffset % 4, 0);
+        const stored = Array.from({length: 6}, (_, i) => bin.readUInt32LE(view.byteOffset + 4 * i));
+        assert.deepEqual(stored, parts[0].indices);
+        assert.equal(gltf.buffers[0].byteLength, bin.length);
+    });
+
+    test('leaves out the parts without triangles', () => {
+        const {gltf} = readGlb(toGlb([...parts, {color: 0, positions: [], indices: []}]));
+        assert.equal(gltf.meshes[0].primitives.length, 2);
+        assert.equal(gltf.materials.length, 2);
+    });
+});
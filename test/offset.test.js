@@ -0,0 +1,73 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {offset, polygon} = require('../out/core');
+const {rect, totalArea, assertClose} = require('./helpers');
+
+describe('offset', () => {
+    const square = [polygon(rect(0, 0, 100, 100))];
+
+    test('grows a square with mitered corners', () => {
+        const result = offset(square, 10, {join: 'miter'});
+        assert.equal(result.length, 1);
+        assert.deepEqual(result[0].outer, rect(-10, -10, 120, 120));
+    });
+
+    test('grows a square with beveled corners', () => {
+        const result = offset(square, 10, {join: 'bevel'});
+        assert.equal(result[0].outer.length, 8);
+        assertClose(totalArea(result), 100 * 100 + 4 * 100 * 10 + 2 * 10 * 10);
+    });
+
+    test('grows a square with round corners, within the arc tolerance', () => {
+        const result = offset(square, 10, {join: 'round', arcTolerance: 0.1});
+        const exact = 100 * 100 + 4 * 100 * 10 + Math.PI * 10 * 10;
+        assert.ok(totalArea(result) < exact);
+        assertClose(totalArea(result), exact, 4 * 0.1 * Math.PI * 10);
+    });
+
+    test('falls back to a bevel past the miter limit', () => {
+        const spike = [polygon([{x: 0, y: 0}, {x: 100, y: 5}, {x: 0, y: 10}])];
+        const mitered = offset(spike, 5, {join: 'miter', miterLimit: 2});
+        assert.ok(Math.max(...mitered[0].outer.map(p => p.x)) <= 100 + 2 * 5);
+    });
+
+    test('shrinks a square', () => {
+        const result = offset(square, -10);
+        assert.equal(result.length, 1);
+        assert.deepEqual(result[0].outer, rect(10, 10, 80, 80));
+    });
+
+    test('removes polygons shrunk past their width', () => {
+        assert.deepEqual(offset(square, -60), []);
+    });
+
+    test('splits a polygon whose narrow part gets shrunk away', () => {
+        const dumbbell = [polygon([
+            {x: 0, y: 0}, {x: 40, y: 0}, {x: 40, y: 18}, {x: 60, y: 18}, {x: 60, y: 0}, {x: 100, y: 0},
+            {x: 100, y: 40}, {x: 60, y: 40}, {x: 60, y: 22}, {x: 40, y: 22}, {x: 40, y: 40}, {x: 0, y: 40}
+        ])];
+        const result = offset(dumbbell, -5);
+        assert.equal(result.length, 2);
+        //a bit more than the two shrunk squares - they bulge out a little where the bridge was
+        assertClose(totalArea(result), 2 * 30 * 30, 5);
+    });
+
+    test('merges polygons that grow into each other', () => {
+        const result = offset([polygon(rect(0, 0, 10, 10)), polygon(rect(15, 0, 10, 10))], 5, {join: 'miter'});
+        assert.equal(result.length, 1);
+        assert.deepEqual(result[0].outer, rect(-5, -5, 35, 20));
+    });
+
+    test('shrinks the holes when growing', () => {
+        const result = offset([polygon(rect(0, 0, 50, 50), [rect(10, 10, 30, 30)])], 5, {join: 'miter'});
+        assert.equal(result.length, 1);
+        assert.deepEqual(result[0].holes.length, 1);
+        assertClose(totalArea(result), 60 * 60 - 20 * 20);
+    });
+
+    test('cleans up the polygons without moving them when the distance is 0', () => {
+        const result = offset([polygon(rect(0, 0, 10, 10)), polygon(rect(5, 0, 10, 10))], 0);
+        assert.equal(result.length, 1);
+        assertClose(totalArea(result), 150);
+    });
+});
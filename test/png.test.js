@@ -0,0 +1,64 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const zlib = require('node:zlib');
+const {encodeGrayscalePng} = require('../out/core');
+
+function crc32(bytes) {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc ^= byte;
+        for (let k = 0; k < 8; ++k) {
+            crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+        }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// The chunks of a PNG, checking their CRCs along the way
+function readChunks(png) {
+    const buffer = Buffer.from(png), chunks = [];
+    assert.deepEqual([...buffer.subarray(0, 8)], [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    for (let offset = 8; offset < buffer.length;) {
+        const length = buffer.readUInt32BE(offset), typeAndData = buffer.subarray(offset + 4, offset + 8 + length);
+        const type = typeAndData.subarray(0, 4).toString('latin1');
+        assert.equal(buffer.readUInt32BE(offset + 8 + length), crc32(typeAndData), `the CRC of ${type}`);
+        chunks.push({type, data: typeAndData.subarray(4)});
+        offset += 12 + length;
+    }
+    return chunks;
+}
+
+describe('encodeGrayscalePng', () => {
+    test('writes the header, the text and the end in valid chunks', () => {
+        const chunks = readChunks(encodeGrayscalePng(3, 2, new Uint8Array(6), 8, {Comment: 'Heights'}));
+        assert.deepEqual(chunks.map(c => c.type), ['IHDR', 'tEXt', 'IDAT', 'IEND']);
+        const header = chunks[0].data;
+        assert.equal(header.readUInt32BE(0), 3);
+        assert.equal(header.readUInt32BE(4), 2);
+        assert.deepEqual([...header.subarray(8)], [8, 0, 0, 0, 0]);
+        assert.equal(chunks[1].data.toString('latin1'), 'Comment\0Heights');
+        assert.equal(chunks[3].data.length, 0);
+    });
+
+    test('stores the 8-bit rows, each after its filter type', () => {
+        const pixels = new Uint8Array([0, 128, 255, 1, 2, 3]);
+        const idat = readChunks(encodeGrayscalePng(3, 2, pixels, 8)).find(c => c.type === 'IDAT');
+        //inflating checks the zlib stream, including its Adler-32
+        assert.deepEqual([...zlib.inflateSync(idat.data)], [0, 0, 128, 255, 0, 1, 2, 3]);
+    });
+
+    test('stores the 16-bit pixels big-endian', () => {
+        const pixels = new Uint16Array([0x1234, 0xffff]);
+        const chunks = readChunks(encodeGrayscalePng(2, 1, pixels, 16));
+        assert.equal(chunks[0].data[8], 16);
+        assert.deepEqual([...zlib.inflateSync(chunks.find(c => c.type === 'IDAT').data)], [0, 0x12, 0x34, 0xff, 0xff]);
+    });
+
+    test('splits big images into several deflate blocks', () => {
+        const width = 400, height = 300, pixels = new Uint8Array(width * height).map((_, i) => i % 251);
+        const idat = readChunks(encodeGrayscalePng(width, height, pixels, 8)).find(c => c.type === 'IDAT');
+        const raw = zlib.inflateSync(idat.data);
+        assert.equal(raw.length, (1 + width) * height);
+        assert.equal(raw[(1 + width) * 299 + 1 + 399], pixels[299 * width + 399]);
+    });
+});
@@ -0,0 +1,124 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {readProject, parseProject, projectProblems, createProject, projectToJson, projectVersion} = require('../out/editor/project');
+const {defaultSettings} = require('../out/editor/settings');
+const {rect} = require('./helpers');
+
+// A valid project of the current version
+function project(pointsets = [{id: 'ps', points: [{id: 'p1', x: 0, y: 0}, {id: 'p2', x: 10, y: 0}, {id: 'p3', x: 10, y: 10}], controlPointDiffs: []}]) {
+    return JSON.parse(projectToJson(createProject('Islands', pointsets, defaultSettings)));
+}
+
+function assertIds(pointsets) {
+    const ids = pointsets.flatMap(ps => [ps.id, ...ps.points.map(p => p.id)]);
+    assert.ok(ids.every(id => typeof id === 'string' && id !== ''));
+    assert.equal(new Set(ids).size, ids.length);
+}
+
+describe('readProject', () => {
+    test('migrates a bare array of pointsets (version 0)', () => {
+        const read = readProject([{points: rect(0, 0, 10, 10), controlPointDiffs: []}], 'Old drawing');
+        assert.equal(read.version, projectVersion);
+        assert.equal(read.name, 'Old drawing');
+        assert.deepEqual(read.settings, defaultSettings);
+        assert.deepEqual(read.pointsets[0].points.map(({x, y}) => ({x, y})), rect(0, 0, 10, 10));
+        assertIds(read.pointsets);
+    });
+
+    test('migrates version 0 with some of the settings, filling in the rest', () => {
+        const read = readProject({pointsets: [], settings: {contours: {interval: 25}, heightScale: 2}}, 'Old');
+        assert.equal(read.settings.contours.interval, 25);
+        assert.equal(read.settings.contours.spacing, defaultSettings.contours.spacing);
+        assert.equal(read.settings.heightScale, 2);
+        assert.equal(read.settings.terrainView, defaultSettings.terrainView);
+    });
+
+    test('drops the control point diffs that the editor used to ignore (version 1)', () => {
+        const points = rect(0, 0, 10, 10), diffs = Array.from({length: 8}, () => ({x: 1, y: 2}));
+        const read = readProject({version: 1, name: 'One', settings: {}, pointsets: [
+            {points, controlPointDiffs: [{x: 1, y: 1}]},
+            {points},
+            {points, controlPointDiffs: diffs}
+        ]}, 'Ignored');
+        assert.equal(read.name, 'One');
+        assert.deepEqual(read.pointsets.map(ps => ps.controlPointDiffs), [[], [], diffs]);
+    });
+
+    test('gives the pointsets and points of version 2 ids, keeping the ones they have', () => {
+        const read = readProject({version: 2, name: 'Two', settings: defaultSettings, pointsets: [
+            {points: [{x: 0, y: 0, id: 'kept'}, {x: 1, y: 0}, {x: 1, y: 1}], controlPointDiffs: []}
+        ]}, 'Two');
+        assert.equal(read.pointsets[0].points[0].id, 'kept');
+        assertIds(read.pointsets);
+    });
+
+    test('reads the current version as it is', () => {
+        assert.deepEqual(readProject(project(), 'Ignored'), project());
+    });
+
+    test('rejects what isn\'t a project, or is from a newer version', () => {
+        assert.throws(() => readProject('text', 'x'), /Not a project file/);
+        assert.throws(() => readProject({version: -1}, 'x'), /Not a project file/);
+        assert.throws(() => readProject({version: projectVersion + 1}, 'x'), /from a newer version of the editor \(format 4, this one reads up to 3\)/);
+    });
+
+    test('lists the first problems of an invalid project', () => {
+        const invalid = {...project(), settings: {contours: {}, heightScale: 0, terrainView: 'flat'}};
+        assert.throws(() => readProject(invalid, 'x'), error => {
+            const lines = error.message.split('\n');
+            assert.equal(lines[0], 'Invalid project:');
+            assert.equal(lines.length, 1 + 10 + 1);
+            assert.equal(lines[1], 'settings.contours.interval should be a positive number');
+            assert.equal(lines[11], '... and 1 more');
+            return true;
+        });
+    });
+});
+
+describe('parseProject', () => {
+    test('reads the JSON, and says when it isn\'t', () => {
+        assert.deepEqual(parseProject(projectToJson(project()), 'x'), project());
+        assert.throws(() => parseProject('{', 'x'), /^Error: Not a JSON file/);
+    });
+});
+
+describe('projectProblems', () => {
+    test('finds nothing wrong with a valid project', () => {
+        assert.deepEqual(projectProblems(project()), []);
+    });
+
+    test('says where the problems are and what is expected', () => {
+        const invalid = project([
+            {id: 'a', points: [{id: 'p1', x: 0, y: '1'}, {id: 'a', x: 1, y: 1}], controlPointDiffs: [{x: 0, y: 0}],
+                elevation: 'high', contourDirection: 'up', curve: {type: 'bezier', tension: null, alpha: 'x'}},
+            {id: 'a', points: 'none', controlPointDiffs: []},
+            null
+        ]);
+        invalid.settings.contours.colors = [0x1000000];
+        invalid.settings.contours.miterLimit = 0.5;
+        assert.deepEqual(projectProblems(invalid), [
+            'pointsets[0].points[0].y should be a number',
+            'pointsets[0].points[1].id should be unique',
+            'pointsets[0].controlPointDiffs should be empty or 2 per point (4), not 1',
+            'pointsets[0].elevation should be a number',
+            'pointsets[0].contourDirection should be "outward" or "inward"',
+            'pointsets[0].curve.type should be "basis" or "cardinal" or "catmullRom" or "monotone" or "linear"',
+            'pointsets[0].curve.alpha should be a number',
+            'pointsets[1].id should be unique',
+            'pointsets[1].points should be an array of points',
+            'pointsets[2] should be an object',
+            'settings.contours.colors[0] should be a color (from 0 to 0xffffff)',
+            'settings.contours.miterLimit should be at least 1'
+        ]);
+    });
+
+    test('checks the top level', () => {
+        assert.deepEqual(projectProblems(null), ['The project should be an object']);
+        assert.deepEqual(projectProblems({version: 2, name: 1, pointsets: {}, settings: []}), [
+            'version should be 3',
+            'name should be a string',
+            'pointsets should be an array',
+            'settings should be an object'
+        ]);
+    });
+});
@@ -0,0 +1,79 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {simplify, simplifyDouglasPeucker, simplifyVisvalingam, closestPointOnSegment, distancePts} = require('../out/core');
+
+// A zigzag along the x axis, the odd points `amplitude` off it
+function zigzag(count, amplitude) {
+    return Array.from({length: count}, (_, i) => ({x: 10 * i, y: i % 2 ? amplitude : 0}));
+}
+
+// How far the points are from the simplified line at most
+function maxDeviation(points, simplified) {
+    const segments = simplified.slice(1).map((end, i) => ({start: simplified[i], end}));
+    return Math.max(...points.map(p => Math.min(...segments.map(s => distancePts(p, closestPointOnSegment(p, s))))));
+}
+
+describe('simplifyDouglasPeucker', () => {
+    test('drops the points within the tolerance of the line', () => {
+        assert.deepEqual(simplifyDouglasPeucker(zigzag(11, 1), 2), [{x: 0, y: 0}, {x: 100, y: 0}]);
+    });
+
+    test('keeps the points beyond the tolerance', () => {
+        const points = zigzag(11, 5);
+        assert.deepEqual(simplifyDouglasPeucker(points, 2), points);
+    });
+
+    test('keeps a sharp corner', () => {
+        const line = [...Array.from({length: 10}, (_, i) => ({x: 10 * i, y: 0})), ...Array.from({length: 10}, (_, i) => ({x: 90, y: 10 * (i + 1)}))];
+        assert.deepEqual(simplifyDouglasPeucker(line, 1), [{x: 0, y: 0}, {x: 90, y: 0}, {x: 90, y: 100}]);
+    });
+
+    test('stays within the tolerance of the points, with fewer points the higher it is', () => {
+        const wave = Array.from({length: 200}, (_, i) => ({x: i, y: 30 * Math.sin(i / 10)}));
+        let previousCount = Infinity;
+        for (const tolerance of [0.5, 2, 8]) {
+            const simplified = simplifyDouglasPeucker(wave, tolerance);
+            assert.ok(maxDeviation(wave, simplified) <= tolerance, `tolerance ${tolerance}`);
+            assert.ok(simplified.length < previousCount);
+            previousCount = simplified.length;
+        }
+    });
+
+    test('keeps the ends, and lines of 2 points as they are', () => {
+        assert.deepEqual(simplifyDouglasPeucker([{x: 0, y: 0}, {x: 1, y: 1}], 10), [{x: 0, y: 0}, {x: 1, y: 1}]);
+        assert.deepEqual(simplifyDouglasPeucker([], 10), []);
+    });
+
+    test('handles long strokes without running out of stack', () => {
+        const stroke = zigzag(15000, 5);
+        assert.equal(simplifyDouglasPeucker(stroke, 1).length, stroke.length);
+    });
+});
+
+describe('simplifyVisvalingam', () => {
+    test('drops the points making triangles smaller than the tolerance\'s', () => {
+        //every point of the zigzag makes a triangle of 20 x 1 / 2 with its neighbours, the limit is tolerance² / 2
+        assert.deepEqual(simplifyVisvalingam(zigzag(11, 1), 4), zigzag(11, 1));
+        assert.ok(simplifyVisvalingam(zigzag(11, 1), 4.5).length <= 3);
+        assert.deepEqual(simplifyVisvalingam(zigzag(11, 1), 20), [{x: 0, y: 0}, {x: 100, y: 0}]);
+    });
+
+    test('fewer points the higher the tolerance, always with the ends', () => {
+        const wave = Array.from({length: 200}, (_, i) => ({x: i, y: 30 * Math.sin(i / 10)}));
+        let previousCount = Infinity;
+        for (const tolerance of [1, 4, 16]) {
+            const simplified = simplifyVisvalingam(wave, tolerance);
+            assert.deepEqual([simplified[0], simplified[simplified.length - 1]], [wave[0], wave[199]]);
+            assert.ok(simplified.length < previousCount);
+            previousCount = simplified.length;
+        }
+    });
+});
+
+describe('simplify', () => {
+    test('goes with the method', () => {
+        const points = zigzag(11, 1);
+        assert.deepEqual(simplify(points, 2), simplifyDouglasPeucker(points, 2));
+        assert.deepEqual(simplify(points, 4.5, 'visvalingam'), simplifyVisvalingam(points, 4.5));
+    });
+});
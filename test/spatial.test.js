@@ -0,0 +1,101 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {SpatialGrid, overlappingPairs, pointBounds, segmentBounds} = require('../out/core');
+
+// Deterministic pseudo-random numbers from 0 to 1, so that failures can be reproduced
+function random(seed) {
+    return () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+        return seed / 4294967296;
+    };
+}
+
+function randomRects(count, seed, maxSize) {
+    const next = random(seed);
+    return Array.from({length: count}, (_, id) => ({id, x: next() * 1000, y: next() * 1000, width: next() * maxSize, height: next() * maxSize}));
+}
+
+function overlap(a, b, padding) {
+    return a.x - padding <= b.x + b.width + padding && b.x - padding <= a.x + a.width + padding &&
+        a.y - padding <= b.y + b.height + padding && b.y - padding <= a.y + a.height + padding;
+}
+
+function bruteForcePairs(rects, padding = 0) {
+    const pairs = [];
+    rects.forEach((a, i) => rects.slice(i + 1).forEach(b => overlap(a, b, padding) && pairs.push([a.id, b.id])));
+    return pairs;
+}
+
+const ids = pairs => [...pairs].map(([a, b]) => [a.id, b.id]);
+
+describe('SpatialGrid', () => {
+    test('finds the items in the cells a rectangle touches', () => {
+        const grid = new SpatialGrid(10);
+        grid.insert('a', pointBounds({x: 5, y: 5}));
+        grid.insert('b', pointBounds({x: 25, y: 5}));
+        grid.insert('c', segmentBounds({start: {x: 0, y: 35}, end: {x: 45, y: 15}}));
+        assert.equal(grid.size, 3);
+        assert.deepEqual(grid.query({x: 0, y: 0, width: 9, height: 9}), ['a']);
+        assert.deepEqual(grid.near({x: 24, y: 5}, 2), ['b']);
+        assert.deepEqual(grid.query({x: 41, y: 21, width: 2, height: 2}), ['c']);
+        assert.deepEqual(grid.query({x: 100, y: 100, width: 5, height: 5}), []);
+    });
+
+    test('returns every item once, however many of its cells a query touches', () => {
+        const grid = new SpatialGrid(10);
+        grid.insert('wide', {x: 0, y: 0, width: 100, height: 100});
+        assert.deepEqual(grid.query({x: 0, y: 0, width: 100, height: 100}), ['wide']);
+    });
+
+    test('forgets removed items, and moves updated ones', () => {
+        const grid = new SpatialGrid(10);
+        grid.insert('a', pointBounds({x: 5, y: 5}));
+        grid.insert('b', pointBounds({x: 6, y: 6}));
+        grid.remove('a');
+        assert.deepEqual(grid.near({x: 5, y: 5}, 1), ['b']);
+        grid.update('b', pointBounds({x: 55, y: 55}));
+        assert.deepEqual(grid.near({x: 5, y: 5}, 1), []);
+        assert.deepEqual(grid.near({x: 55, y: 55}, 1), ['b']);
+        assert.equal(grid.size, 1);
+        grid.clear();
+        assert.equal(grid.size, 0);
+        assert.deepEqual(grid.near({x: 55, y: 55}, 1), []);
+    });
+
+    test('works with negative coordinates', () => {
+        const grid = new SpatialGrid(10);
+        grid.insert('a', pointBounds({x: -5, y: -15}));
+        assert.deepEqual(grid.near({x: -4, y: -14}, 2), ['a']);
+        assert.deepEqual(grid.near({x: 4, y: 14}, 2), []);
+    });
+});
+
+describe('overlappingPairs', () => {
+    test('matches comparing all the pairs, with few items', () => {
+        const rects = randomRects(20, 1, 300);
+        assert.deepEqual(ids(overlappingPairs(rects, r => r)), bruteForcePairs(rects));
+    });
+
+    test('matches comparing all the pairs, with many items of different sizes', () => {
+        for (const [seed, maxSize] of [[2, 20], [3, 200], [4, 1000]]) {
+            const rects = randomRects(500, seed, maxSize);
+            assert.deepEqual(ids(overlappingPairs(rects, r => r)), bruteForcePairs(rects), `seed ${seed}`);
+        }
+    });
+
+    test('pads the bounds', () => {
+        const rects = randomRects(300, 5, 10);
+        assert.deepEqual(ids(overlappingPairs(rects, r => r, 15)), bruteForcePairs(rects, 15));
+    });
+
+    test('counts touching bounds and identical points as overlapping', () => {
+        const rects = [
+            ...Array.from({length: 40}, (_, id) => ({id, x: id * 10, y: 0, width: 10, height: 10})),
+            {id: 40, x: 5, y: 5, width: 0, height: 0}, {id: 41, x: 5, y: 5, width: 0, height: 0}
+        ];
+        const pairs = ids(overlappingPairs(rects, r => r));
+        assert.deepEqual(pairs, bruteForcePairs(rects));
+        assert.ok(pairs.some(([a, b]) => a == 0 && b == 1));
+        assert.ok(pairs.some(([a, b]) => a == 40 && b == 41));
+    });
+});
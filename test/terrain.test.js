@@ -0,0 +1,85 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {terrainMesh, generateContours} = require('../out/core');
+const {rect, circle, layer} = require('./helpers');
+
+// A hill on an inward footprint next to a depression, as generated from the pointsets
+const layers = generateContours([
+    {points: circle(100, 100, 50, 12), controlPointDiffs: [], elevation: 120},
+    {points: rect(250, 50, 60, 60), controlPointDiffs: [], elevation: -80, contourDirection: 'inward'}
+]);
+
+function positionsOf(part, i) {
+    return part.positions.slice(3 * i, 3 * i + 3);
+}
+
+// How many triangles use every edge, in each direction - the vertices are told apart by their positions only
+function edgeUses(parts) {
+    const uses = new Map();
+    for (const part of parts) {
+        for (let j = 0; j < part.indices.length; j += 3) {
+            const corners = part.indices.slice(j, j + 3).map(i => positionsOf(part, i).join(','));
+            corners.forEach((from, k) => {
+                const to = corners[(k + 1) % 3], key = from < to ? `${from} ${to}` : `${to} ${from}`;
+                const use = uses.get(key) ?? {forwards: 0, backwards: 0};
+                from < to ? ++use.forwards : ++use.backwards;
+                uses.set(key, use);
+            });
+        }
+    }
+    return uses;
+}
+
+function heightsOf(part) {
+    return new Set(part.positions.filter((_, i) => i % 3 == 1));
+}
+
+describe('terrainMesh', () => {
+    test('closes the solid - every edge is used once in each direction', () => {
+        const uses = edgeUses(terrainMesh(layers, {style: 'solid'}));
+        assert.ok(uses.size > 0);
+        for (const [edge, use] of uses) {
+            assert.deepEqual(use, {forwards: 1, backwards: 1}, edge);
+        }
+    });
+
+    test('leaves the terraces open, flat at the elevations of their layers', () => {
+        const parts = terrainMesh(layers, {style: 'terraces'});
+        assert.equal(parts.length, 1 + layers.length);
+        assert.deepEqual(heightsOf(parts[0]), new Set([0]));
+        parts.slice(1).forEach((part, i) => assert.deepEqual(heightsOf(part), new Set([layers[i].elevation])));
+        assert.ok([...edgeUses(parts).values()].some(use => use.forwards + use.backwards == 1));
+    });
+
+    test('puts the base of the solid below the lowest terrace', () => {
+        const parts = terrainMesh(layers, {style: 'solid', baseThickness: 10});
+        assert.equal(Math.min(...parts.flatMap(p => [...heightsOf(p)])), -80 - 10);
+    });
+
+    test('slopes the surface between the contours, sharing the vertices of the neighbouring bands', () => {
+        const [part] = terrainMesh(layers, {style: 'surface'}), count = part.positions.length / 3;
+        const distinct = new Set(Array.from({length: count}, (_, i) => positionsOf(part, i).join(',')));
+        assert.equal(distinct.size, count);
+        assert.equal(part.normals.length, part.positions.length);
+        assert.equal(part.colors.length, part.positions.length);
+        assert.deepEqual(heightsOf(part), new Set([0, 40, 80, 120, -40, -80]));
+        for (const [edge, use] of edgeUses([part])) {
+            assert.ok(use.forwards <= 1 && use.backwards <= 1, edge);
+        }
+    });
+
+    test('faces the terraces up', () => {
+        const [ground] = terrainMesh([layer(40, rect(0, 0, 100, 100))], {style: 'terraces'});
+        for (let j = 0; j < ground.indices.length; j += 3) {
+            const [a, b, c] = ground.indices.slice(j, j + 3).map(i => positionsOf(ground, i));
+            const normalY = (b[2] - a[2]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[2] - a[2]);
+            assert.ok(normalY >= 0);
+        }
+    });
+
+    test('scales the model and stretches the elevations', () => {
+        const parts = terrainMesh([layer(40, rect(0, 0, 100, 100))], {style: 'terraces', scale: 0.5, verticalExaggeration: 3, margin: 20});
+        assert.deepEqual(heightsOf(parts[1]), new Set([0.5 * 3 * 40]));
+        assert.equal(Math.max(...parts[0].positions.filter((_, i) => i % 3 == 0)), 0.5 * 120);
+    });
+});
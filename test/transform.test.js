@@ -0,0 +1,47 @@
+const {describe, test} = require('node:test');
+const assert = require('node:assert/strict');
+const {identityTransform, translation, scaling, rotation, composeTransforms, applyTransform, applyLinear} = require('../out/core');
+const {assertClose} = require('./helpers');
+
+function assertPointClose(actual, expected) {
+    assertClose(actual.x, expected.x);
+    assertClose(actual.y, expected.y);
+}
+
+describe('transforms', () => {
+    const p = {x: 30, y: 10};
+
+    test('translate', () => {
+        assert.deepEqual(applyTransform(translation(5, -3), p), {x: 35, y: 7});
+        assert.deepEqual(applyTransform(identityTransform, p), p);
+    });
+
+    test('scale around the origin, mirroring with negative factors', () => {
+        const origin = {x: 10, y: 10};
+        assert.deepEqual(applyTransform(scaling(2, 3, origin), p), {x: 50, y: 10});
+        assert.deepEqual(applyTransform(scaling(2, 3, origin), origin), origin);
+        assert.deepEqual(applyTransform(scaling(-1, 1, origin), p), {x: -10, y: 10});
+    });
+
+    test('rotate clockwise on the screen around the origin', () => {
+        //with y going down, a quarter turn takes right to down
+        assertPointClose(applyTransform(rotation(Math.PI / 2), {x: 1, y: 0}), {x: 0, y: 1});
+        assertPointClose(applyTransform(rotation(Math.PI / 2, {x: 10, y: 10}), p), {x: 10, y: 30});
+        assertPointClose(applyTransform(rotation(Math.PI, {x: 10, y: 10}), {x: 10, y: 10}), {x: 10, y: 10});
+    });
+
+    test('compose in order', () => {
+        const moveThenScale = composeTransforms(translation(10, 0), scaling(2, 2));
+        assert.deepEqual(applyTransform(moveThenScale, p), {x: 80, y: 20});
+        const scaleThenMove = composeTransforms(scaling(2, 2), translation(10, 0));
+        assert.deepEqual(applyTransform(scaleThenMove, p), {x: 70, y: 20});
+        const turn = rotation(0.7, {x: 3, y: 4}), composed = composeTransforms(turn, scaling(1.5, -2, {x: -1, y: 2}));
+        assertPointClose(applyTransform(composed, p), applyTransform(scaling(1.5, -2, {x: -1, y: 2}), applyTransform(turn, p)));
+    });
+
+    test('leave the translation out for vectors', () => {
+        const t = composeTransforms(rotation(Math.PI / 2), translation(100, 100));
+        assertPointClose(applyLinear(t, {x: 1, y: 0}), {x: 0, y: 1});
+        assertPointClose(applyLinear(t, {x: 5, y: 5}), {x: -5, y: 5});
+    });
+});
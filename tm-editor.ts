@@ -3,83 +3,152 @@ import * as $ from 'jquery';
 import * as PIXI from 'pixi.js';
 import {Graphics} from 'pixi.js';
 import 'jquery-ui-dist/jquery-ui';
-import * as d3 from 'd3';
-import * as BABYLON from 'babylonjs';
-import * as earcut from 'earcut';
-
-interface Point {
-    x: number;
-    y: number;
-}
-
-interface Pointset {
-    points: Point[];
-    controlPointDiffs: Point[];
-}
-
-interface Command {
-    apply: () => void;
-    unapply: () => void;
-}
-
-interface Rectangle {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-}
-
-interface Segment {
-    start: Point;
-    end: Point;
-}
-
-interface Interval {
-    start: number;
-    end: number;
-}
-
-interface Curve {
-    points: Point[];
-    controlPoints: Point[];
-}
+import {
+    ContourDirection,
+    CurveType,
+    HandleMode,
+    HeightInterpolation,
+    Layer,
+    Point,
+    Pointset,
+    Rectangle,
+    Segment,
+    SpatialGrid,
+    TerrainStyle,
+    Transform,
+    applyLinear,
+    applyTransform,
+    baseCurve,
+    closestPointOnSegment,
+    curvePoints,
+    defaultCurveAlpha,
+    defaultCurveTension,
+    distance,
+    distancePts,
+    elevationOf,
+    fromGeoJson,
+    getBoundingRect,
+    heightmapPng,
+    identityTransform,
+    incomingHandle,
+    isInward,
+    last,
+    layerCurves,
+    normal,
+    oppositeHandle,
+    outgoingHandle,
+    pickClockwiseOrder,
+    pointBounds,
+    pointsetCurve,
+    pt,
+    rasterizeHeightmap,
+    ptMinus,
+    ptPlus,
+    segmentBounds,
+    segments,
+    simplify,
+    terrainMesh,
+    toGeoJson,
+    toGlb,
+    toObj,
+    toStl,
+    toSvg,
+    validDiffs,
+    vec_mult,
+    vec_plus,
+    withInsertedPoint,
+    withRemovedPoint
+} from './core';
+import {Settings, defaultSettings, setupSettingsPanel, showSettings, withDefaults} from './editor/settings';
+import {downloadFile, openTextFile} from './editor/files';
+import {setupScene, updateScene} from './editor/scene';
+import {latestContours, requestContours, setupContoursWorker} from './editor/contours';
+import {Project, createProject, parseProject} from './editor/project';
+import {listProjects, loadEditorState, loadProject, saveProject, uniqueName} from './editor/storage';
+import {setupProjectsDialog} from './editor/projects-dialog';
+import {History, copyPointset, emptyHistory, jumpTo, operationsBetween, record} from './editor/history';
+import {setupHistoryPanel, showHistory} from './editor/history-panel';
+import {assignIds, newId, withNewIds} from './editor/ids';
+import {Tool, penOptions, setupToolPalette, showTool, toolKeys} from './editor/tools';
+import {canSplit, merge, part, reversed, runs, split} from './editor/pointset-edits';
+import {setupClipboard} from './editor/clipboard';
+import {Snap, SnapOptions, loadSnapOptions, setupSnapOptions, showSnapOptions, snap} from './editor/snapping';
+import {BoxHandle, BoxHandleKind, boxHandleSize, boxHandles, boxHandleAt, dragTransform, paddedBox} from './editor/transform-box';
+import {PivotTransform, enableTransformPanel, setupTransformPanel} from './editor/transform-panel';
 
 let graphics: Graphics, app: PIXI.Application;
 let canvas2dView: HTMLCanvasElement, canvas3dView: HTMLCanvasElement;
 let scrollbox: Scrollbox;
 let allPointsets: Pointset[] = [],
     pointRadius = 7;
-let selected: Point[] = [];
+let selected: string[] = []; //ids of the points, in the order they got selected
+//all the points by position, and by id with the pointsets they're in. Rebuilt after every command, updated as points get dragged
+const pointIndex = new SpatialGrid<Point>(50), pointsById = new Map<string, {point: Point, pointset: Pointset, index: number}>();
+//the edges by position, each one by the point it starts from (edge i of a pointset goes from its point i to the next one)
+const edgeIndex = new SpatialGrid<Point>(50);
 
 let mouseDownStart: number, mouseDownCoords: Point;
 let mouseInside: boolean;
-let dragging = false, dragged: Point = null, dragStart: Point = null; //dragStart is the coords of the point at the start of its drag
+let cursorCoords: Point = null; //null when the mouse isn't over the 2D view
+let dragging = false, dragged: string = null, dragStart: Point = null; //dragStart is the coords of the point at the start of its drag
 let draggedCpInfo: {
     cpIndex: number,
     otherCpIndex: number,
     baseCps: Point[],
-    point: Point,
+    pointId: string,
+    knot: Point, //where the curve goes through (or near, for B-splines) the point
     cpStartDiff: Point,
     otherCpStartDiff: Point
 } = null; //contains information about a control point, if we're dragging one
+let handleMode: HandleMode = 'smooth';
+let tool: Tool = 'add';
+let pickedEdge: {pointsetId: string, index: number} = null; //the first of the two edges to merge
+let stroke: Point[] = null; //the one being drawn with the pen
+const pasteOffset = 20; //in px, for pasting without the mouse over the 2D view, and duplicating
+let pasteCount = 0; //since the last copy, so that pasting again doesn't put the points on top of the previous ones
+let snapOptions: SnapOptions = loadSnapOptions();
+let snapIndicator: Snap = null; //where the point that's being added or dragged snaps to
+const snapRadius = 12; //in px on the screen
+let pivot: {selection: string, at: Point} = null; //where the user put it, for as long as the same points are selected
+let boxDrag: {
+    handle: BoxHandle,
+    box: Rectangle, //the selection's, at the start of the drag
+    pivot: Point,
+    from: Point,
+    transform: Transform, //from the start to the current mouse position
+    snapshot: SelectionSnapshot
+} = null; //contains information about the selection box's handle, if we're dragging one
+const boxDragLabels: {[kind in BoxHandleKind]?: string} = { move: "Move selection", scale: "Scale selection", rotate: "Rotate selection" };
+const minStrokeStep = 2; //in px, the stroke doesn't get points closer than that to the previous one
 let areaSelecting = false, selectionArea: PIXI.Rectangle = null;
 
 const keyCallbacks: any = {}, keyState: any = {},
     repeatThreshold = 100; //in ms
 
-let undoStack: Command[] = [], redoStack: Command[] = [];
+let history: History = emptyHistory();
+
+let settings: Settings = defaultSettings;
+let projectName = "Untitled";
+let loaded = false; //nothing gets saved before the last project is open, so that it can't get overwritten
+let contourLayers: Layer[] = []; //the last ones the worker came up with, drawn until it's done with the current state
+let contoursOutdated = true; //the pointsets or the settings changed since the contours were last requested
+let marginShift = 0; //how far the points got shifted to the right since the last repaint, for the view to follow them
 
 const zoomFactor = 1.25;
 let zoomLevel = 1.0;
+const handleRadius = 5;
 const editorWidth = 800, editorHeight = 600, horizontalBufferPx = 150;
+const inwardPointsetColor = 0x996633;
+
+//The selected points and the handle diffs of their pointsets, as they were before transforming them
+interface SelectionSnapshot {
+    points: {point: Point, original: Point}[];
+    pointsets: {pointset: Pointset, diffs: Point[], handles: number[]}[];
+}
 
 //Coords of the points "dragged" via keyboard (e.g. with the arrows)
 let keyboardDragged: Point[] = [];
 
-let engine: BABYLON.Engine;
-let scene: BABYLON.Scene;
-let camera: BABYLON.Camera;
-
 enum PointType {
     REGULAR = 1,
     SELECTED = 2,
@@ -120,7 +189,6 @@ function setupDrawing() {
         this._bounds.addFrame(this.transform, 0, 0, editorWidth + buffer, editorHeight);
     }).bind(graphics);
 
-
     scrollbox.on("click", (e: PIXI.InteractionEvent) => onMouseReleased(e));
     scrollbox.on("mouseupoutside", (e: PIXI.InteractionEvent) => onMouseReleased(e));
     scrollbox.on("mousedown", (e: PIXI.InteractionEvent) => onMouseDown(e));
@@ -132,14 +200,22 @@ function setupDrawing() {
     window.addEventListener("keyup", onKeyUp);
     window.addEventListener("keydown", onKeyDown);
 
-    registerKey("Delete", deleteSelected);
+    registerKey("Delete", () => deleteSelected());
+    //on key down, before the browser bookmarks the page
+    registerKey("d", e => { if (e.ctrlKey) { e.preventDefault(); duplicateSelected(); } }, true);
     registerKey("z", e => { if (e.ctrlKey) { undo(); } });
     registerKey("y", e => { if (e.ctrlKey) { redo(); } });
 
+    registerKey("i", toggleContourDirection);
+
     registerKey("+", zoomIn);
     registerKey("=", zoomIn); //for convenience - no need to press shift
     registerKey("-", zoomOut);
 
+    for (let key of Object.keys(toolKeys)) {
+        registerKey(key, e => { if (!e.ctrlKey) { setTool(toolKeys[key]); } });
+    }
+
     registerArrowMovement();
     registerKey("a", e => {
         e.preventDefault();
@@ -147,16 +223,36 @@ function setupDrawing() {
             const allPts = allPoints();
             //select/deselect all
             if (selected.length !== allPts.length) {
-                selected = allPoints();
+                selected = allPts.map(p => p.id);
             } else {
                 selected = [];
             }
+            saveCurrentState();
             repaint();
         }
     });
 
-    loadStoredStateIfNotExpired();
+    setupPointsetProperties();
+    setupFileActions();
+    setupSettingsPanel(applySettings);
+    setupProjectsDialog({ current: currentProject, open: openProject, savedAs: name => { setProjectName(name); saveCurrentState(true); } });
+    setupHistoryPanel(jumpInHistory);
+    setupToolPalette(setTool);
+    setupTransformPanel(transformSelectionAroundPivot);
+    setupSnapOptions(options => {
+        snapOptions = options;
+        repaint();
+    });
+    showSnapOptions(snapOptions);
+    setupClipboard({
+        copy: () => { pasteCount = 0; return selectionAsPointsets(); },
+        cut: () => deleteSelected("Cut points"),
+        paste: pointsets => paste(pointsets)
+    });
+    showTool(tool);
+    showSettings(settings);
     repaint();
+    openLastProject();
 }
 
 function onMouseReleased(e: PIXI.InteractionEvent) {
@@ -165,47 +261,46 @@ function onMouseReleased(e: PIXI.InteractionEvent) {
     const mouseDownElapsed = performance.now() - mouseDownStart,
         isClick = mouseDownElapsed <= 150;
 
-    if (mouseInside && isClick && isAddingNew() && nearest == null) {
-        const addAfter = last(selected);
-        let {pointset: ps, index: i} = addAfter != null ? findPointsetAndIndex(addAfter) : {pointset: createPointset(), index: -1};
-        const currentSelected = selected;
-        const command = {
-            apply: () => { const added = addNewAtIndex(ps, coords, i + 1); selected = [added]; },
-            unapply: () => { deleteAtIndex(ps, i + 1); selected = currentSelected;  }
-        };
-        doCommand(command);
+    if (stroke != null) {
+        finishStroke();
+    } else if (boxDrag != null && (dragging || boxDrag.handle.kind !== 'move')) {
+        //a click on one of the box's handles doesn't do anything, a click inside the box is like any other
+        if (dragging && boxDrag.handle.kind !== 'pivot') {
+            transformSelection(boxDragLabels[boxDrag.handle.kind], boxDrag.transform, boxDrag.snapshot);
+        }
+        dragging = false;
+        repaint();
+    } else if (mouseInside && isClick && !dragging && draggedCpInfo == null && useTool(coords, nearest, e.data.originalEvent.shiftKey)) {
+        //the tool took care of it
     } else if (mouseInside && dragging) {
         dragging = false;
         if (dragged != null) {
-            let from = {x : dragStart.x, y: dragStart.y}, to = coords, point = dragged;
-            //refer to the point by index when applying/un-applying,
-            //because the reference to the point can become invalid if it's deleted/re-created
-            //(e.g. undo/redo add point)
-
-            const command = {
-                apply: () => { drag(point, to); },
-                unapply: () => { drag(point, from); }
-            }
-            doCommand(command);
+            const point = pointById(dragged), from = {x : dragStart.x, y: dragStart.y},
+                to = snapDragged(point, coords, e.data.originalEvent.shiftKey);
+            snapIndicator = null;
+            //back to the start, so that the command records the whole move
+            drag(point, from);
+            doCommand("Move point", () => drag(point, to));
 
             dragged = null;
         } else if (draggedCpInfo != null) {
-            const from = {x : dragStart.x, y: dragStart.y}, to = coords;
-            const point = draggedCpInfo.point, {pointset: ps} = findPointsetAndIndex(point),
-                i = draggedCpInfo.cpIndex, i2 = draggedCpInfo.otherCpIndex,
-                baseCps = draggedCpInfo.baseCps;
-            const command = {
-                apply: () => { dragCp(i, i2, applyDiffs(baseCps, ps.controlPointDiffs), point, to); },
-                unapply: () => { dragCp(i, i2, applyDiffs(baseCps, ps.controlPointDiffs), point, from); }
+            const {pointset: ps} = findPointsetAndIndex(draggedCpInfo.pointId),
+                {cpIndex: i, otherCpIndex: i2, cpStartDiff, otherCpStartDiff} = draggedCpInfo,
+                cpEndDiff = ps.controlPointDiffs[i], otherCpEndDiff = ps.controlPointDiffs[i2];
+            const setDiffs = (diff: Point, otherDiff: Point) => {
+                ps.controlPointDiffs = validDiffs(ps.controlPointDiffs, ps.points.length);
+                ps.controlPointDiffs[i] = diff;
+                ps.controlPointDiffs[i2] = otherDiff;
             };
-            doCommand(command);
-            draggedCpInfo = null;
+            setDiffs(cpStartDiff, otherCpStartDiff);
+            doCommand("Move handle", () => setDiffs(cpEndDiff, otherCpEndDiff));
         }
     } else if (areaSelecting) {
         areaSelecting = false;
         selectionArea = null;
+        saveCurrentState();
         repaint();
-    } else {
+    } else if (draggedCpInfo == null) {
         //update the value of selected on mouse release (and if we didnt do anything else)
         if (!shouldAddToSelection(e)) {
             selected = [];
@@ -213,23 +308,27 @@ function onMouseReleased(e: PIXI.InteractionEvent) {
 
         if (nearest) {
             if (!isSelected(nearest)) {
-                selected.push(nearest);
+                selected.push(nearest.id);
             } else {
-                remove(selected, nearest);
+                remove(selected, nearest.id);
             }
         }
 
+        saveCurrentState();
         repaint();
     }
 
     //clear those, since they're always set on mouse down (whether it precedes actual dragging or not)
     dragged = dragStart = null;
+    draggedCpInfo = null;
+    stroke = null;
+    boxDrag = null;
+    snapIndicator = null;
 
     mouseDownStart = -1;
     mouseDownCoords = null;
 }
 
-
 function onMouseDown(e: PIXI.InteractionEvent) {
     let coords = getCoords(e.data.global),
         nearest = pointNearCoords(coords);
@@ -239,50 +338,105 @@ function onMouseDown(e: PIXI.InteractionEvent) {
 
     //First attempt to drag a control point (if any is near)
     //because they can be inside the point's visualization and then there's no way to drag them out
-    if (nearest != null) {
-        dragged = nearest;
+    const handle = selectedHandles().find(h => isNear(h.cp, coords.x, coords.y, handleRadius));
+    const box = selectionBox(), boxHandle = box != null ? boxHandleAt(box, currentPivot(box), coords) : null;
+    if (handle != null) {
+        const {pointset: ps} = findPointsetAndIndex(handle.pointId), diffs = validDiffs(ps.controlPointDiffs, ps.points.length);
+        draggedCpInfo = {
+            cpIndex: handle.cpIndex,
+            otherCpIndex: handle.otherCpIndex,
+            baseCps: handle.baseCps,
+            pointId: handle.pointId,
+            knot: handle.knot,
+            cpStartDiff: diffs[handle.cpIndex],
+            otherCpStartDiff: diffs[handle.otherCpIndex]
+        };
+        dragStart = { x: handle.cp.x, y: handle.cp.y };
+    } else if (boxHandle != null && boxHandle.kind !== 'move' && !(boxHandle.kind === 'pivot' && nearest != null)) {
+        startBoxDrag(boxHandle, box, coords);
+    } else if (nearest != null && box != null && isSelected(nearest)) {
+        //the whole selection goes with the point
+        startBoxDrag({ kind: 'move', at: coords }, box, coords);
+    } else if (nearest != null) {
+        dragged = nearest.id;
 
         //need to copy these as the event may get reassigned
         dragStart = { x: nearest.x, y: nearest.y };
+    } else if (tool === 'pen') {
+        stroke = [coords];
+    } else if (boxHandle != null) {
+        startBoxDrag(boxHandle, box, coords);
     }
 
     repaint();
 }
 
+function startBoxDrag(handle: BoxHandle, box: Rectangle, coords: Point) {
+    boxDrag = { handle, box, pivot: currentPivot(box), from: coords, transform: identityTransform, snapshot: selectionSnapshot() };
+    dragStart = coords;
+}
+
+function dragBox(coords: Point, snap: boolean) {
+    const {handle, box, from, snapshot} = boxDrag;
+    if (handle.kind === 'pivot') {
+        pivot = { selection: selected.join(), at: coords };
+    } else {
+        boxDrag.transform = dragTransform(handle, box, boxDrag.pivot, from, coords, snap);
+        transformSnapshot(snapshot, boxDrag.transform);
+    }
+}
+
 function addToSelection(items: Point[]) {
-    return selected = selected.concat(items.filter(p => !isSelected(p)));
+    return selected = selected.concat(items.filter(p => !isSelected(p)).map(p => p.id));
 }
 
 function onMouseMove(e: PIXI.InteractionEvent) {
+    cursorCoords = getCoords(e.data.global);
     const elapsed = mouseDownStart > 0 && performance.now() - mouseDownStart;
     if (!dragging && dragStart != null && elapsed >= 75) {
         dragging = true;
     }
-    areaSelecting = dragStart == null && elapsed >= 150 && mouseInside;
+    areaSelecting = dragStart == null && stroke == null && elapsed >= 150 && mouseInside;
 
     if (dragged != null && dragging) {
-        drag(dragged, getCoords(e.data.global));
+        const point = pointById(dragged);
+        drag(point, snapDragged(point, getCoords(e.data.global), e.data.originalEvent.shiftKey));
         repaint();
     } else if(draggedCpInfo != null && dragging) {
-        const coords = getCoords(e.data.global);
-        const {pointset: ps} = findPointsetAndIndex(draggedCpInfo.point),
-            effectiveCps = applyDiffs(draggedCpInfo.baseCps, ps.controlPointDiffs);
-        dragCp(draggedCpInfo.cpIndex, draggedCpInfo.otherCpIndex, effectiveCps, draggedCpInfo.point, coords);
+        dragCp(draggedCpInfo, getCoords(e.data.global));
 
         repaint();
+    } else if (boxDrag != null && dragging) {
+        dragBox(getCoords(e.data.global), e.data.originalEvent.shiftKey);
+        repaint();
+    } else if (stroke != null) {
+        const coords = getCoords(e.data.global);
+        if (distancePts(coords, last(stroke)) >= minStrokeStep) {
+            stroke.push(coords);
+            repaint();
+        }
     } else if (areaSelecting) {
         const coords = getCoords(e.data.global),
             rect = makeRectangle(mouseDownCoords, coords);
 
         selectionArea = rect;
-        const toSelect = allPoints().filter(pt => rect.contains(pt.x, pt.y));
-        selected = shouldAddToSelection(e) ? addToSelection(toSelect) : toSelect;
+        const toSelect = pointIndex.query(rect).filter(pt => rect.contains(pt.x, pt.y));
+        selected = shouldAddToSelection(e) ? addToSelection(toSelect) : toSelect.map(p => p.id);
 
         repaint();
+    } else if (tool === 'add' && dragStart == null) {
+        //where a click would add the point
+        const previous = snapIndicator;
+        snapAdded(cursorCoords, e.data.originalEvent.shiftKey);
+        if (JSON.stringify(previous) !== JSON.stringify(snapIndicator)) {
+            repaint();
+        }
     }
 }
 
 function onMouseOut(_: PIXI.InteractionEvent) {
+    cursorCoords = null;
+    snapIndicator = null;
     repaint();
 }
 
@@ -290,20 +444,27 @@ function onMouseOver(_ : PIXI.InteractionEvent) {
     mouseInside = true;
 }
 
-
 function makeRectangle(point1: Point, point2: Point) {
     const upperLeft = { x: Math.min(point1.x, point2.x), y: Math.min(point1.y, point2.y) },
         lowerRight = { x: Math.max(point1.x, point2.x), y: Math.max(point1.y, point2.y) };
     return new PIXI.Rectangle(upperLeft.x, upperLeft.y, lowerRight.x - upperLeft.x, lowerRight.y - upperLeft.y);
 }
 
-
 function isSelected(pt: Point) {
-    return selected.indexOf(pt) !== -1;
+    return selected.indexOf(pt.id) !== -1;
+}
+
+function pointById(id: string): Point {
+    return pointsById.get(id)?.point;
+}
+
+//The selected points that (still) exist
+function selectedPoints(): Point[] {
+    return selected.map(pointById).filter(p => p != null);
 }
 
 function createPointset(): Pointset {
-    const newPointset: Pointset = {points: [], controlPointDiffs: []};
+    const newPointset: Pointset = {id: newId(), points: [], controlPointDiffs: []};
     allPointsets.push(newPointset);
     return newPointset;
 }
@@ -313,13 +474,20 @@ function isNear(p: Point, x: number, y: number, radius?: number) {
     return distance(p.x, p.y, x, y) <= radius;
 }
 
+// The closest one within pointRadius
 function pointNearCoords(coords: {x: number, y: number}) {
-    return allPoints().find(p => isNear(p, coords.x, coords.y));
+    const near = pointIndex.near(coords, pointRadius).filter(p => isNear(p, coords.x, coords.y));
+    return near.reduce((closest, p) => closest == null || distancePts(p, coords) < distancePts(closest, coords) ? p : closest, undefined);
 }
 
-function findPointsetAndIndex (pt: Point): {pointset: Pointset, index: number} {
+function findPointsetAndIndex (id: string): {pointset: Pointset, index: number} {
+    const indexed = pointsById.get(id)?.pointset, index = indexed?.points.findIndex(p => p.id === id) ?? -1;
+    if (index !== -1 && allPointsets.includes(indexed)) {
+        return {pointset: indexed, index};
+    }
+    //not indexed (yet), e.g. while applying a command
     for (let ps of allPointsets) {
-        const i = ps.points.indexOf(pt);
+        const i = ps.points.findIndex(p => p.id === id);
         if (i !== -1) {
             return {pointset: ps, index: i};
         }
@@ -330,14 +498,165 @@ function shouldAddToSelection(event: PIXI.InteractionEvent) {
     return event.data.originalEvent.ctrlKey == true;
 }
 
-function isAddingNew() {
+function setTool(newTool: Tool) {
+    tool = newTool;
+    pickedEdge = null;
+    showTool(tool);
+    repaint();
+}
+
+//Does what the current tool does with a click on coords - false if it doesn't do anything, and the click just selects
+function useTool(coords: Point, nearest: Point, constrainAngle: boolean): boolean {
+    const edge = nearest == null ? edgeNearCoords(coords) : null;
+    switch (tool) {
+        case 'select':
+            return false;
+        case 'add':
+            if (nearest == null) {
+                addPoint(snapAdded(coords, constrainAngle));
+                return true;
+            }
+            return finishPointset(nearest);
+        case 'insert':
+            if (edge != null) {
+                doCommand("Insert point", () => selected = [addNewAtIndex(edge.pointset, edge.at, edge.index + 1).id]);
+            }
+            return edge != null;
+        case 'split':
+            return nearest != null && splitAt(nearest);
+        case 'merge':
+            if (edge == null) {
+                pickedEdge = null;
+                return false;
+            }
+            mergeAt(edge);
+            return true;
+        case 'reverse': {
+            const ps = nearest != null ? findPointsetAndIndex(nearest.id).pointset : edge?.pointset;
+            if (ps != null) {
+                doCommand("Reverse pointset", () => allPointsets[allPointsets.indexOf(ps)] = reversed(ps));
+            }
+            return ps != null;
+        }
+    }
+}
+
+//The simplified stroke becomes a new pointset, with its points selected
+function finishStroke() {
+    const {method, tolerance} = penOptions(), points = simplify(stroke, tolerance, method);
+    //the last point is about where the stroke started if it's been drawn closed
+    if (points.length > 3 && distancePts(points[0], last(points)) <= tolerance) {
+        points.pop();
+    }
+    if (points.length >= 3) {
+        doCommand("Draw pointset", () => {
+            const ps = createPointset();
+            ps.points = points.map(p => ({...pt(p.x, p.y), id: newId()}));
+            selected = ps.points.map(p => p.id);
+        });
+    } else {
+        repaint();
+    }
+}
+
+//Where coords snap to, ignoring the pointset that's being edited (and showing where in the next repaint)
+function snapCoords(coords: Point, pointset: Pointset, previous: Point, constrainAngle: boolean): Point {
+    const radius = snapRadius / zoomLevel,
+        points = pointIndex.near(coords, radius).filter(p => pointsById.get(p.id)?.pointset !== pointset),
+        edges = snapOptions.toEdges ? edgesNear(coords, radius).filter(e => e.pointset !== pointset).map(e => e.segment) : [];
+    snapIndicator = snap(coords, { points, edges, previous }, snapOptions, radius, constrainAngle);
+    return snapIndicator?.at ?? coords;
+}
+
+//For a point added after the last selected one
+function snapAdded(coords: Point, constrainAngle: boolean): Point {
+    const addAfter = last(selected), found = addAfter != null ? findPointsetAndIndex(addAfter) : null;
+    return snapCoords(coords, found?.pointset, found != null ? found.pointset.points[found.index] : null, constrainAngle);
+}
+
+function snapDragged(point: Point, coords: Point, constrainAngle: boolean): Point {
+    const {pointset: ps, index: i} = findPointsetAndIndex(point.id), n = ps.points.length;
+    return snapCoords(coords, ps, n > 1 ? ps.points[(i - 1 + n) % n] : null, constrainAngle);
+}
+
+//After the last selected point, or as the first point of a new pointset
+function addPoint(coords: Point) {
+    const addAfter = last(selected);
+    doCommand("Add point", () => {
+        const {pointset: ps, index: i} = addAfter != null ? findPointsetAndIndex(addAfter) : {pointset: createPointset(), index: -1};
+        selected = [addNewAtIndex(ps, coords, i + 1).id];
+    });
+}
+
+//Clicking the first point of the pointset that's being drawn (with its last point selected) finishes it,
+//so that the next click starts a new one
+function finishPointset(point: Point): boolean {
+    const drawn = selected.length == 1 ? findPointsetAndIndex(selected[0]) : null, clicked = findPointsetAndIndex(point.id);
+    if (drawn == null || drawn.pointset !== clicked.pointset || clicked.index !== 0 || drawn.index < 2 ||
+        drawn.index !== drawn.pointset.points.length - 1) {
+        return false;
+    }
+    selected = [];
+    saveCurrentState();
+    repaint();
     return true;
 }
 
-function isDisplayingPoints() {
+//Splits the pointset of the selected point along the line from it to the clicked one
+function splitAt(point: Point): boolean {
+    const from = selected.length == 1 ? findPointsetAndIndex(selected[0]) : null, to = findPointsetAndIndex(point.id);
+    if (from == null || from.pointset !== to.pointset || !canSplit(to.pointset, from.index, to.index)) {
+        return false;
+    }
+    doCommand("Split pointset", () => {
+        allPointsets.splice(allPointsets.indexOf(to.pointset), 1, ...split(to.pointset, from.index, to.index));
+        selected = [];
+    });
     return true;
 }
 
+//Picks the first edge, or merges its pointset with the one of the second edge
+function mergeAt(edge: {pointset: Pointset, index: number}) {
+    const picked = pickedEdge != null ? allPointsets.find(ps => ps.id === pickedEdge.pointsetId) : null;
+    if (picked == null || picked === edge.pointset || pickedEdge.index >= picked.points.length) {
+        pickedEdge = {pointsetId: edge.pointset.id, index: edge.index};
+        repaint();
+        return;
+    }
+    const pickedIndex = pickedEdge.index;
+    pickedEdge = null;
+    doCommand("Merge pointsets", () => {
+        allPointsets[allPointsets.indexOf(picked)] = merge(picked, pickedIndex, edge.pointset, edge.index);
+        allPointsets = allPointsets.filter(ps => ps !== edge.pointset);
+    });
+}
+
+// The closest edge within pointRadius (the straight one between two points, not the curve), with the point of it closest to coords.
+// Edge i goes from point i to the next one
+function edgeNearCoords(coords: Point): {pointset: Pointset, index: number, at: Point} {
+    let nearest: {pointset: Pointset, index: number, at: Point} = null, nearestDistance = pointRadius;
+    for (let {pointset, index, segment} of edgesNear(coords, pointRadius)) {
+        const at = closestPointOnSegment(coords, segment), d = distancePts(at, coords);
+        if (d <= nearestDistance) {
+            nearest = {pointset, index, at};
+            nearestDistance = d;
+        }
+    }
+    return nearest;
+}
+
+//The edges whose bounds are within the radius of coords - some of them can still be further away
+function edgesNear(coords: Point, radius: number): {pointset: Pointset, index: number, segment: Segment}[] {
+    return edgeIndex.near(coords, radius).map(start => {
+        const {pointset, index} = pointsById.get(start.id);
+        return {pointset, index, segment: edgeOf(pointset, index)};
+    });
+}
+
+function edgeOf(ps: Pointset, i: number): Segment {
+    return {start: ps.points[i], end: ps.points[(i + 1) % ps.points.length]};
+}
+
 function getCoords(e: Point) {
     return { x: (e.x + scrollbox.scrollLeft) / zoomLevel, y: (e.y + scrollbox.scrollTop) / zoomLevel };
 }
@@ -347,6 +666,45 @@ function shiftPoints(pts: Point[], {x, y}: {x?: number, y?: number}) {
         p.x += x || 0;
         p.y += y || 0;
     });
+    reindexMoved(pts);
+}
+
+function requestOutdatedContours() {
+    if (contoursOutdated) {
+        contoursOutdated = false;
+        requestContours(allPointsets, settings.contours);
+    }
+}
+
+//Every change of the points goes through the index (this or reindexMoved), so it's also where the contours get outdated
+function indexPoints() {
+    contoursOutdated = true;
+    pointIndex.clear();
+    edgeIndex.clear();
+    pointsById.clear();
+    for (let ps of allPointsets) {
+        ps.points.forEach((p, index) => {
+            pointIndex.insert(p, pointBounds(p));
+            pointsById.set(p.id, {point: p, pointset: ps, index});
+        });
+        segments(ps.points).forEach((s, i) => edgeIndex.insert(ps.points[i], segmentBounds(s)));
+    }
+}
+
+//Updates the index with the new positions of the points, and of the edges from and to them
+function reindexMoved(pts: Point[]) {
+    contoursOutdated = true;
+    for (let p of pts) {
+        pointIndex.update(p, pointBounds(p));
+        const indexed = pointsById.get(p.id);
+        //the points that aren't indexed yet (e.g. while applying a command) get indexed after it
+        if (indexed?.pointset.points[indexed.index] !== p || indexed.pointset.points.length < 2) {
+            continue;
+        }
+        const {pointset: ps, index: i} = indexed, previous = (i - 1 + ps.points.length) % ps.points.length;
+        edgeIndex.update(p, segmentBounds(edgeOf(ps, i)));
+        edgeIndex.update(ps.points[previous], segmentBounds(edgeOf(ps, previous)));
+    }
 }
 
 function allPoints(pointsets?: Pointset[]): Point[] {
@@ -357,24 +715,14 @@ function allPoints(pointsets?: Pointset[]): Point[] {
 $(() => {
     canvas2dView = $("#two-d-view").get(0) as HTMLCanvasElement;
     canvas3dView = $("#three-d-view").get(0) as HTMLCanvasElement;
-    engine = new BABYLON.Engine(canvas3dView, true);
-    scene = new BABYLON.Scene(engine);
-    setupScene(scene);
+    setupScene(canvas3dView);
+    setupContoursWorker(layers => {
+        contourLayers = layers;
+        repaint();
+    });
     setupDrawing();
 });
 
-function distance(x1: number, y1: number, x2: number, y2: number) {
-    return ((x1 - x2) ** 2 + (y1 - y2) ** 2) ** 0.5;
-}
-
-function distancePts(p1: Point, p2: Point) {
-    return distance(p1.x, p1.y, p2.x, p2.y);
-}
-
-function pt(x: number, y: number) {
-    return {x: x, y: y};
-}
-
 function bezierCurve(x1: number, y1: number, x2: number, y2: number, x: number, y: number, g?: PIXI.Graphics) {
     g = g || graphics;
     g.bezierCurveTo(x1, y1, x2, y2, x, y);
@@ -418,55 +766,6 @@ function curve(points: Point[], controlPoints: Point[], g?: PIXI.Graphics) {
     }
 }
 
-interface FakeCanvasRenderingContext extends CanvasRenderingContext2D {
-    points(): Point[];
-    controlPoints(): Point[];
-}
-
-function getFakeContext(): FakeCanvasRenderingContext {
-    let points: Point[] = [], controlPoints: Point[] = [];
-    return {
-        moveTo(x: number, y: number) {
-            points.push({x, y});
-        },
-        bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
-            points.push({x, y});
-            controlPoints.push({x: cp1x, y: cp1y});
-            controlPoints.push({x: cp2x, y: cp2y});
-        },
-
-        points(): Point[] {
-            return points;
-        },
-
-        controlPoints(): Point[] {
-            return controlPoints;
-        },
-        closePath() {
-        },
-
-        lineTo(x: number, y: number) {
-            points.push({x, y});
-        }
-    } as FakeCanvasRenderingContext; // the unimplemented members aren't needed for now
-}
-
-
-function usingD3Curves(points: Point[], curveFactory: d3.CurveFactory): [Point[], Point[]] {
-    const ctx = getFakeContext();
-    const generator = curveFactory(ctx);
-    generator.lineStart();
-    for (let p of points) {
-        generator.point(p.x, p.y);
-    }
-    generator.lineEnd();
-    return [ctx.points(), ctx.controlPoints()];
-}
-
-function curvePoints(points: Point[]): [Point[], Point[]] {
-    return usingD3Curves(points, d3.curveBasisClosed);
-}
-
 // TODO: Pass in the result of curvePoints(...) to avoid re-computation?
 function drawCurvePointsOnly(points: Point[], g?: PIXI.Graphics, color?: number) {
     g = g || graphics;
@@ -487,19 +786,6 @@ function drawCurve(points: Point[], controlPoints: Point[], g?: PIXI.Graphics, c
     g.lineStyle(width, oldColor);
 }
 
-function bezierCurvePointAt(p0: Point, cp0: Point, cp1: Point, p1: Point, t: number): Point {
-    return vec_plus(vec_mult(p0, Math.pow(1-t, 3)),
-        vec_mult(cp0, 3*Math.pow(1-t, 2) * t),
-        vec_mult(cp1, 3*(1-t)*t*t),
-        vec_mult(p1, t*t*t));
-}
-
-function getBoundingRect(points: Point[]) {
-    let minX = Math.min(...points.map(p => p.x)), minY = Math.min(...points.map(p => p.y)),
-        maxX = Math.max(...points.map(p => p.x)), maxY = Math.max(...points.map(p => p.y));
-    return {x: minX, y: minY, width: maxX - minX, height: maxY - minY};
-}
-
 function drawPoint(point: Point, radius: number, pointType: PointType, g?: PIXI.Graphics) {
     g = g || graphics;
 
@@ -558,717 +844,552 @@ function repaint() {
     graphics.clear();
     graphics.lineStyle(1, 0x000000);
 
-    const allPts = allPoints(),
-        marginLeft = ensureLeftMargin(allPts);
-
-
-    const reordered = allPointsets.map(p => ({
-        points: hasSelfIntersectingParts(p.points) ? reorderClockwise(p.points) : p.points,
-        controlPointDiffs: p.controlPointDiffs
-    }));
-    for (let ps of reordered) {
+    drawGrid();
+    for (let ps of allPointsets) {
         repaintPointset(ps);
     }
 
+    drawHandles();
+    drawSnapIndicator();
+    drawSelectionBox();
+    drawPickedEdge();
+    drawStroke();
+
     if (selectionArea != null) {
         drawRect(selectionArea, 0x000000);
     }
 
-    let layers: { curves: Curve[], color: number }[] = [];
-
-    const allPolys = reordered.map(p => p.points);
-    const unionMultiplePolygons = (allPolys: Point[][]) => allPolys.reduce((acc: Point[][], curr, i) => {
-        if (acc.length == 0) return [curr];
-        let currUnion = curr;
-        let res: Point[][] = [];
-        for (let i = 0; i < acc.length; ++i) {
-            const el = acc[i];
-            const u = polyUnion(el, currUnion);
-            if (u.length == 2) {
-                res.push(el);
-            } else {
-                currUnion = u[0];
-            }
-
-            if (i == acc.length - 1) {
-                res.push(currUnion);
-            }
-        }
-        return res;
-    }, []);
-
-    const union = unionMultiplePolygons(allPolys);
-    const amounts = [0, 1, 2, 3, 4].map(x => x * 20);
-    const colors = [0xa5eb34, 0x65eb34, 0x34eb52, 0x34eb89, 0x34ebc3, 0x34ebe8];
-    let lastUnion = union;
-    let lastAmount = 0;
-    const expandStepwise = (union: Point[][], totalToExpand: number, step: number) => {
-        let united = union;
-        if (step > 0) {
-            for (let j = step; j <= totalToExpand; j += step) {
-                const expanded = united.map(p => expand(p, step));
-                united = unionMultiplePolygons(expanded);
-            }
-        }
-        return united;
-    }
-    for (let i = 0; i < amounts.length; ++i) {
-        layers[i] = { curves: [], color: colors[i] };
-        const delta = amounts[i] - lastAmount;
-        const step = 1;
-        let currentUnion: Point[][] = expandStepwise(lastUnion, delta, step).map(part => removeSelfIntersectingParts(part));
-        currentUnion = currentUnion.map(el => {
-            const result = addCollinearPoints([...el, el[0]], 300);
-            return result.slice(0, result.length - 1);
-        });
-        for (const el of currentUnion) {
-            // lines(el, graphics, colors[i]);
-            const [pts, cps] = curvePoints(el);
-            layers[i].curves.push({ points: pts, controlPoints: cps});
-            drawCurve(pts, cps, graphics, colors[i]);
+    requestOutdatedContours();
+    const layers = contourLayers;
+    for (const layer of layers) {
+        for (const c of layerCurves(layer)) {
+            drawCurve(c.points, c.controlPoints, graphics, layer.color);
         }
-
-        lastUnion = currentUnion;
-        lastAmount = amounts[i];
     }
 
-
     //scrollbox doesn't support directly modifying scrollLeft, so fiddle with its internals instead..
-    scrollbox.content.left += marginLeft;
+    scrollbox.content.left += marginShift;
+    marginShift = 0;
     scrollbox.update();
 
     // setZoom(zoomLevel); //update zoom level label
-    updateScene(layers);
-    scene.render();
+    updatePointsetProperties();
+    enableTransformPanel(selectionBox() != null);
+    //while dragging, the 3D view only catches up every now and then
+    updateScene(layers, settings, dragging);
 }
 
-function addCollinearPoints(pts: Point[], maxDistance: number): Point[] {
-    const withMidpoints = [];
-    for (let i = 0; i < pts.length - 1; ++i) {
-        const p0 = pts[i], p1 = pts[i+1];
-        if (withMidpoints.length === 0) {
-            withMidpoints.push(p0);
-        }
-        const dist = distancePts(p0, p1);
-        if (distancePts(p0, p1) >= maxDistance) {
-            const neededPts = Math.floor(dist / maxDistance);
-            for (let j = 1; j <= neededPts; ++j) {
-                const pt = vec_divide(vec_plus(vec_mult(p0, neededPts + 1 - j), vec_mult(p1, j)), neededPts + 1);
-                withMidpoints.push(pt);
-            }
-        }
-        withMidpoints.push(p1);
-    }
-    return withMidpoints;
-}
-
-function segments(pts: Point[]): Segment[] {
-    if (pts.length < 2) {
-        return [];
-    }
-    let res = [];
-    let p0 = pts[0];
-    for (let i = 1; i < pts.length; ++i) {
-        res.push({ start: p0, end: pts[i] });
-        p0 = pts[i];
+function drawNormals(pts: Point[]) {
+    let i = 0;
+    for (let s of segments(pickClockwiseOrder(pts))) {
+        const n = normal(s);
+        const p = vec_plus(vec_mult(vec_plus(s.start, s.end), 0.5), vec_mult(n, 10));
+        drawPoint(p, 4, PointType.DEBUG);
+        drawText(p, "" + (++i));
     }
-    res.push({ start: pts[pts.length - 1], end: pts[0] });
-    return res;
-}
-
-function cross(v1: Point, v2: Point) {
-    return v1.x*v2.y - v2.x*v1.y;
 }
 
-function isNumber(x: any): x is number {
-    return typeof x === "number";
-}
-
-function isPoint(o: any): o is Point {
-    return o.x != null && o.y != null;
-}
+function ensureLeftMargin(pts: Point[]) {
+    const closestLeft = Math.min(...pts.map(p => p.x));
+    let offset = 0;
+    if (closestLeft < horizontalBufferPx) {
+        //whole grid cells, so that the points that snapped to it stay on it
+        offset = Math.ceil((horizontalBufferPx - closestLeft) / snapOptions.gridSize) * snapOptions.gridSize;
+        //Do this instead of .map(...) + reassigning, because the index refers to the points themselves
+        shiftPoints(pts, {x: offset, y: 0});
 
-function vec(p1: Point | number, p2: Point | number): Point {
-    if (isNumber(p1) && isNumber(p2)) {
-        return {x: p1, y: p2};
-    }
-    else if (isPoint(p1) && isPoint(p2)) {
-        return {x: p2.x - p1.x, y: p2.y - p1.y };
+        // console.log("Offset: ", offset, "content left: ", scrollbox.content.left);
+        // console.log("Content left: ", scrollbox.content.left);
     }
-}
 
-function closeTo(n: number, t: number) {
-    return Math.abs(n - t) < 1e-9;
+    return offset;
 }
 
-function intersectSegments(segment1: Segment, segment2: Segment): {u: number, v: number} {
-    const {start: s1, end: e1} = segment1, r = vec(s1, e1);
-    const {start: s2, end: e2} = segment2, s = vec(s2, e2);
-    const numerator1 = cross(vec(s1, s2), r), denom = cross(r, s);
-    if (closeTo(numerator1, 0) && closeTo(denom, 0)) {
-        let dot_r_r = dot(r, r);
-        let u0 = dot(vec(s1, s2), r)/dot_r_r,
-            u1 = dot(vec(s1, vec_plus(s2, s)), r)/dot_r_r;
-        if (dot(s, r) < 0) {
-            [u0, u1] = [u1, u0];
-        }
-        const intervalIntersection = intersectIntervals({start: u0, end: u1}, {start: 0, end: 1});
-        if (intervalIntersection != null) {
-            const u = intervalIntersection.start;
-            const v = (dot(vec_minus(s1, s2), s) + dot(vec_mult(r, u), s))/dot(s, s);
-            if (!closeTo(intervalIntersection.start, intervalIntersection.end)) {
-                // lines([segment1.start, segment1.end], graphics, 0x00ff00);
-                // lines([segment2.start, segment2.end], graphics, 0x0000ff);
-            }
-            return {u, v};
-        }
-        // collinear, check for equal starts/ends, otherwise no intersection
-        if (ptClose(segment1.start, segment2.start)) return {u: 0, v: 0}
-        if (ptClose(segment2.start, segment1.end)) return {u: 1, v: 0};
-        if (ptClose(segment1.start, segment2.end)) return {u: 0, v: 1};
-        if (ptClose(segment1.end, segment2.end)) return {u: 1, v: 1};
-        return null;
-    } else if (closeTo(numerator1, 0) || closeTo(denom, 0)) {
-        return null;
+function repaintPointset(ps: Pointset) {
+    const points = ps.points;
+    if (points.length > 1) {
+        const c = pointsetCurve(ps);
+        drawCurve(c.points, c.controlPoints, graphics, isInward(ps) ? inwardPointsetColor : 0);
     }
-    const v = numerator1 / denom, u = cross(vec(s1, s2), s) / denom;
-    return {u, v};
-}
-
-function intersectIntervals(i1: Interval, i2: Interval) {
-    const result = {start: Math.max(i1.start, i2.start), end: Math.min(i1.end, i2.end)};
-    return validInterval(result) ? result : null;
-}
-
-function validInterval(interval: Interval) {
-    return interval.start <= interval.end;
-}
 
-function vec_plus(...args: Point[]): Point {
-    return args.reduce((p1, p2) => ({x: p1.x + p2.x, y: p1.y + p2.y}), {x: 0, y: 0});
-}
-
-function vec_minus(v1: Point, v2: Point): Point {
-    return {x: v1.x - v2.x, y: v1.y - v2.y };
+    for (let point of points) {
+        drawPoint(point, pointRadius, isSelected(point) ? PointType.SELECTED : PointType.REGULAR);
+    }
 }
 
-function vec_mult(v1: Point, t: number): Point {
-    return {x: v1.x * t, y: v1.y * t };
+function addNewAtIndex(pointset: Pointset, coords: Point, i: number): Point {
+    const newPt = {...pt(coords.x, coords.y), id: newId()}, diffs = validDiffs(pointset.controlPointDiffs, pointset.points.length);
+    pointset.points.splice(i, 0, newPt);
+    pointset.controlPointDiffs = withInsertedPoint(diffs, i);
+    return newPt;
 }
 
-function vec_divide(v1: Point, t: number) : Point {
-    return {x: v1.x / t, y: v1.y / t};
+function drag(point: Point, coords: Point) {
+    point.y = coords.y;
+    point.x = coords.x;
+    reindexMoved([point]);
+}
+
+//Moves the dragged control point to coords, the other one of its point follows depending on the handle mode
+function dragCp(cpInfo: typeof draggedCpInfo, coords: Point) {
+    const {pointset: ps} = findPointsetAndIndex(cpInfo.pointId), {cpIndex: i, otherCpIndex: i2, baseCps} = cpInfo;
+    const diffs = validDiffs(ps.controlPointDiffs, ps.points.length),
+        otherCp = ptPlus(baseCps[i2], diffs[i2]);
+    diffs[i] = ptMinus(coords, baseCps[i]);
+    diffs[i2] = ptMinus(oppositeHandle(cpInfo.knot, coords, otherCp, handleMode), baseCps[i2]);
+    ps.controlPointDiffs = diffs;
+    contoursOutdated = true;
+}
+
+//The control points of the selected points (the ones that have them), incoming and outgoing
+function selectedHandles() {
+    return selectedPoints().flatMap(({id: pointId}) => {
+        const {pointset: ps, index: i} = findPointsetAndIndex(pointId), base = baseCurve(ps);
+        if (base == null) {
+            return [];
+        }
+        const n = ps.points.length, curve = pointsetCurve(ps), knot = curve.points[i],
+            incoming = incomingHandle(i, n), outgoing = outgoingHandle(i);
+        return [[incoming, outgoing], [outgoing, incoming]].map(([cpIndex, otherCpIndex]) =>
+            ({ pointId, knot, cpIndex, otherCpIndex, cp: curve.controlPoints[cpIndex], baseCps: base.controlPoints }));
+    });
 }
 
-function distanceSq(p1: Point, p2: Point): number {
-    return (p2.x - p1.x)**2 + (p2.y - p1.y)**2;
+function drawHandles() {
+    const oldColor = graphics.line.color, width = graphics.line.width;
+    graphics.lineStyle(width, 0xb245d1);
+    for (let h of selectedHandles()) {
+        graphics.moveTo(h.knot.x, h.knot.y);
+        graphics.lineTo(h.cp.x, h.cp.y);
+    }
+    graphics.lineStyle(width, oldColor);
+    for (let h of selectedHandles()) {
+        drawPoint(h.cp, handleRadius, PointType.CONTROL_POINT);
+    }
 }
 
-function ptEq(p1: Point, p2: Point): boolean {
-    return p1.x === p2.x && p1.y === p2.y;
+function drawPickedEdge() {
+    const ps = pickedEdge != null ? allPointsets.find(ps => ps.id === pickedEdge.pointsetId) : null,
+        edge = ps != null ? segments(ps.points)[pickedEdge.index] : null;
+    if (edge != null) {
+        const oldColor = graphics.line.color, width = graphics.line.width;
+        graphics.lineStyle(3, 0xefbf3b);
+        graphics.moveTo(edge.start.x, edge.start.y);
+        graphics.lineTo(edge.end.x, edge.end.y);
+        graphics.lineStyle(width, oldColor);
+    }
 }
 
-function ptClose(p1: Point, p2: Point): boolean {
-    return closeTo(p1.x, p2.x) && closeTo(p1.y, p2.y);
+//Around the selected points, if there's more than one
+function selectionBox(): Rectangle {
+    const points = selectedPoints();
+    return points.length > 1 ? getBoundingRect(points) : null;
 }
 
-function dot(v1: Point, v2: Point): number {
-    return v1.x*v2.x + v1.y*v2.y;
+function currentPivot(box: Rectangle): Point {
+    if (boxDrag != null) {
+        //it goes along with the selection
+        return applyTransform(boxDrag.transform, boxDrag.pivot);
+    }
+    return pivot != null && pivot.selection === selected.join() ? pivot.at : { x: box.x + box.width / 2, y: box.y + box.height / 2 };
 }
 
-function magnitude(v: Point): number {
-    return Math.sqrt(dot(v, v));
+function selectionSnapshot(): SelectionSnapshot {
+    const points = selectedPoints().map(point => ({ point, original: { x: point.x, y: point.y } }));
+    const pointsets = selectedPointsets().map(ps => {
+        const n = ps.points.length,
+            handles = ps.points.flatMap((p, i) => isSelected(p) ? [incomingHandle(i, n), outgoingHandle(i)] : []);
+        return { pointset: ps, diffs: ps.controlPointDiffs, handles };
+    });
+    return { points, pointsets };
 }
 
-function normalized(v: Point): Point {
-    return vec_mult(v, 1/magnitude(v));
+//Puts the points of the snapshot where the transform takes them from where they were, and turns their handles with them
+function transformSnapshot(snapshot: SelectionSnapshot, transform: Transform) {
+    for (let {point, original} of snapshot.points) {
+        drag(point, applyTransform(transform, original));
+    }
+    for (let {pointset: ps, diffs, handles} of snapshot.pointsets) {
+        if (diffs.length === 2 * ps.points.length) {
+            ps.controlPointDiffs = diffs.map((d, i) => handles.includes(i) ? applyLinear(transform, d) : d);
+        }
+    }
 }
 
-function angleBetween(v1: Point, v2: Point): number {
-    const angleV2 = Math.atan2(v2.y, v2.x), angleV1 = Math.atan2(v1.y, v1.x);
-    let angle = angleV2 - angleV1;
-    if (angle > Math.PI) angle -= 2*Math.PI;
-    else if (angle <= -Math.PI) angle += 2*Math.PI;
-    return angle;
+//Transforms the selected points (from where they are in the snapshot) as an undoable command
+function transformSelection(label: string, transform: Transform, snapshot = selectionSnapshot()) {
+    transformSnapshot(snapshot, identityTransform);
+    doCommand(label, () => transformSnapshot(snapshot, transform));
+    if (pivot != null && pivot.selection === selected.join()) {
+        pivot.at = applyTransform(transform, pivot.at);
+    }
 }
 
-function areWindingClockwise(pts: Point[]): boolean {
-    let sum = 0;
-    for (let s of segments(pts)) {
-        sum += (s.end.x - s.start.x)*(s.end.y + s.start.y);
+function transformSelectionAroundPivot(label: string, transform: PivotTransform) {
+    const box = selectionBox();
+    if (box != null) {
+        transformSelection(label, transform(currentPivot(box)));
     }
-    return sum < 0;
 }
 
-function inside(poly: Point[], pt: Point) {
-    const ray = {start: pt, end: ptPlus(pt, {x: 1, y: 0})};
-    let intersections = 0;
-    for (let s of segments(poly)) {
-        const inters = intersectSegments(s, ray);
-        if (inters != null && inters.u >= 0 && inters.u <= 1 && inters.v >= 0) {
-            ++intersections;
+function drawSelectionBox() {
+    const box = selectionBox();
+    if (box == null) {
+        return;
+    }
+    const oldColor = graphics.line.color, width = graphics.line.width, color = 0x5f8dd8, size = boxHandleSize;
+    drawRect(paddedBox(box), color);
+    graphics.lineStyle(1, color);
+    for (let h of boxHandles(box, currentPivot(box))) {
+        if (h.kind === 'scale') {
+            graphics.beginFill(0xffffff);
+            graphics.drawRect(h.at.x - size / 2, h.at.y - size / 2, size, size);
+            graphics.endFill();
+        } else if (h.kind === 'rotate') {
+            const top = paddedBox(box).y;
+            graphics.moveTo(h.at.x, top);
+            graphics.lineTo(h.at.x, h.at.y);
+            graphics.beginFill(0xffffff);
+            graphics.drawCircle(h.at.x, h.at.y, size / 2);
+            graphics.endFill();
+        } else if (h.kind === 'pivot') {
+            graphics.drawCircle(h.at.x, h.at.y, size / 2);
+            graphics.moveTo(h.at.x - size, h.at.y);
+            graphics.lineTo(h.at.x + size, h.at.y);
+            graphics.moveTo(h.at.x, h.at.y - size);
+            graphics.lineTo(h.at.x, h.at.y + size);
         }
     }
-    return intersections % 2 == 1;
+    graphics.lineStyle(width, oldColor);
 }
 
-// TODO: Add a high-level description of the separate steps in the algorithm
-// TODO: Handle the case when the 2 polygons don't intersect
-function polyUnion(poly1: Point[], poly2: Point[]) {
-    type Graph = {p: Point, neighbours: Point[]}[];
-    const addNeighbour = (graph: Graph, to: Point, neighbour: Point) => {
-        let found = false;
-        graph.filter(el => ptEq(el.p, to)).forEach(el => {
-            found = true;
-            el.neighbours.push(neighbour);
-        });
-        if (!found) {
-            graph.push({p: to, neighbours: [neighbour]});
-        }
-    }
-    const linkPoints = (graph: Graph, p1: Point, p2: Point) => {
-        addNeighbour(graph, p1, p2);
-        addNeighbour(graph, p2, p1);
-    };
-    const removeNeighbour = (graph: Graph, to: Point, neighbour: Point) => {
-        graph.filter(el => ptEq(el.p, to)).forEach(el => {
-            for (let i = 0; i < el.neighbours.length; ++i) {
-                if (ptEq(neighbour, el.neighbours[i])) {
-                    el.neighbours.splice(i, 1);
-                }
-            }
-        });
+function drawGrid() {
+    const size = snapOptions.gridSize;
+    //too dense to be of any use
+    if (!snapOptions.showGrid || size * zoomLevel < 4) {
+        return;
     }
-    const unlinkPoints = (graph: Graph, p1: Point, p2: Point) => {
-        removeNeighbour(graph, p1, p2);
-        removeNeighbour(graph, p2, p1);
-    };
-    const getNeighbours = (graph: Graph, p: Point) => {
-        return graph.find(el => ptEq(el.p, p)).neighbours;
-    }
-
-    const furthestFromLowestLeft = (pts: Point[]) => {
-        let minx = pts.map(p => p.x).reduce((a, b) => Math.min(a, b)),
-            maxy = pts.map(p => p.y).reduce((a, b) => Math.max(a, b));
-        const lowerLeftCorner = {x: minx, y: maxy };
-        pts.sort((a, b) => distanceSq(b, lowerLeftCorner) - distanceSq(a, lowerLeftCorner));
-        return pts[0];
-    }
-
-    const poly2Graph: Graph = [];
-    const segments2 = segments(poly2);
-    for (let s2 of segments2) {
-        linkPoints(poly2Graph, s2.start, s2.end);
-    }
-
-    let graph: Graph = [];
-    /*
-     * Build a graph describing the 2 polygons and any intersection points between them
-     */
-    const segments1 = segments(poly1);
-    let haveIntersection = false;
-    for (let s1 of segments1) {
-        const intersectionPts = [];
-        for (let s2 of [...segments2]) { //iterate over a copy so that iteration isn't affected by changes
-            const inters = intersectSegments(s1, s2);
-            if (inters != null &&
-                inters.u > 0 && inters.u < 1 &&
-                inters.v > 0 && inters.v < 1) {
-                const v = vec(s1.start, s1.end),
-                    pt = vec_plus(s1.start, vec_mult(v, inters.u));
-                intersectionPts.push({ p: pt, neighbours: [s2.start, s2.end]});
-                linkPoints(poly2Graph, s2.start, pt);
-                linkPoints(poly2Graph, s2.end, pt);
-                unlinkPoints(poly2Graph, s2.start, s2.end);
-                segments2.forEach((p, i) => {
-                    if (ptEq(p.start, s2.start) && ptEq(p.end, s2.end)) {
-                        segments2.splice(i, 1, {start: s2.start, end: pt}, {start: pt, end: s2.end});
-                    }
-                });
-                haveIntersection = true;
-            }
-        }
-        let p0 = s1.start, neighb = [];
-        intersectionPts.sort((a, b) => distanceSq(s1.start, a.p) - distanceSq(s1.start, b.p));
-        const arr = intersectionPts.concat({p: s1.end, neighbours: []})
-        for (let intersP of arr) {
-            linkPoints(graph, p0, intersP.p);
-            p0 = intersP.p;
-            neighb = intersP.neighbours;
-        }
+    const bounds = allPoints().length > 0 ? getBoundingRect(allPoints()) : { x: 0, y: 0, width: 0, height: 0 },
+        width = Math.max(editorWidth / zoomLevel, bounds.x + bounds.width) + horizontalBufferPx,
+        height = Math.max(editorHeight / zoomLevel, bounds.y + bounds.height) + horizontalBufferPx;
+    const oldColor = graphics.line.color, oldWidth = graphics.line.width;
+    graphics.lineStyle(1, 0xeeeeee);
+    for (let x = 0; x <= width; x += size) {
+        graphics.moveTo(x, 0);
+        graphics.lineTo(x, height);
     }
-    if (!haveIntersection) {
-        if (poly2.length == 0 || inside(poly1, poly2[0])) {// polygon 2 is fully inside polygon 1 (no intersection and one of its points is inside poly1) => result is poly1
-            return [poly1];
-        } else if (poly1.length == 0 || inside (poly2, poly1[0])) {
-            return [poly2];
-        }
-        return [poly1, poly2];
+    for (let y = 0; y <= height; y += size) {
+        graphics.moveTo(0, y);
+        graphics.lineTo(width, y);
     }
-
-
-    const mergeGraphs = (g1: Graph, g2: Graph) => {
-        const res = [...g1];
-        for (let v2 of g2) {
-            const existing = res.find(v => ptEq(v.p, v2.p));
-            if (existing != null) {
-                existing.neighbours = existing.neighbours.concat(v2.neighbours);
-            } else {
-                res.push(v2);
-            }
-        }
-        return res;
-    };
-    const mergedGraph = mergeGraphs(graph, poly2Graph);
-    let prevPt: Point = null;
-    const result = [];
-    const start = furthestFromLowestLeft(poly1.concat(poly2));
-    let q = [start], visited = [start];
-    const isVisited = (v: Point) => visited.find(x => ptEq(x, v)) != null;
-    let clockwiseWindingOrder = null;
-    while (q.length > 0) {
-        const v = q[0];
-        result.push(v);
-        q = q.splice(1);
-
-        // drawPoint(v, 4, PointType.DEBUG);
-        let neighb = getNeighbours(mergedGraph, v);
-        if (neighb.length === 2) { //ordinary point (not intersection point)
-            if (clockwiseWindingOrder == null) { // need to determine winding order
-                // always pick clockwise winding
-                const o = areWindingClockwise([neighb[1], v, neighb[0]]) ? [neighb[1], v, neighb[0]] : [neighb[0], v, neighb[1]];
-                clockwiseWindingOrder = true;
-
-                q.push(o[2]);
-                visited.push(o[2]);
-            } else {
-                const next = neighb.find(x => x != prevPt && !isVisited(x));
-                if (next != null) {
-                    q.push(next);
-                    visited.push(next);
-                }
-            }
-        } else {
-            const lastSegmentVec = vec(prevPt, v);
-            neighb = neighb.filter(x => x != prevPt).sort((p1, p2) => {
-                const angle1 = angleBetween(lastSegmentVec, vec(v, p1)), angle2 = angleBetween(lastSegmentVec, vec(v, p2));
-                return angle1 - angle2;
-            });
-            if (!isVisited(neighb[0])) {
-                q.push(neighb[0]);
-                visited.push(neighb[0]);
-            }
-        }
-        prevPt = v;
-    }
-    return [result];
+    graphics.lineStyle(oldWidth, oldColor);
 }
 
-function pickClockwiseOrder(pts: Point[]) {
-    if (pts.length <= 2) {
-        return pts;
+function drawSnapIndicator() {
+    if (snapIndicator == null) {
+        return;
     }
-    return areWindingClockwise(pts) ? pts : [...pts].reverse();
-}
-
-function reorderClockwise(pts: Point[]) {
-    let center = vec_divide(pts.reduce((a, b) => ptPlus(a, b), pt(0, 0)), pts.length);
-    const compareFn = (a: Point, b: Point) => {
-        const a_center = vec(a, center);
-        const b_center = vec(b, center);
-        if (a_center.x >= 0 && b_center.x < 0) return -1;
-        if (a_center.x < 0 && b_center.x >= 0) return 1;
-        if (a_center.x === 0 && b_center.x === 0) {
-            if (a_center.y >= 0 && b_center.y >= 0) {
-                return b_center.y - a_center.y;
-            }
-        }
-        const det = cross(a_center, b_center);
-        if (det !== 0) {
-            return det < 0 ? -1 : 1;
-        }
-        // points a and b are on the same line from the center
-        // check which point is closer to the center
-        const dist1 = distanceSq(a, center), dist2 = distanceSq(b, center);
-        return dist2 - dist1;
-    };
-    return [...pts].sort(compareFn);
-}
-
-//Assumes clockwise winding order
-function normal(segment: Segment) {
-    const v = vec(segment.start, segment.end)
-    const n1 = normalized(vec(-v.y, v.x)), n2 = normalized(vec(v.y, -v.x));
-    return cross(v, n1) < 0 ? n1 : n2;
-}
-
-function drawNormals(pts: Point[]) {
-    let i = 0;
-    for (let s of segments(pickClockwiseOrder(pts))) {
-        const n = normal(s);
-        const p = vec_plus(vec_mult(vec_plus(s.start, s.end), 0.5), vec_mult(n, 10));
-        drawPoint(p, 4, PointType.DEBUG);
-        drawText(p, "" + (++i));
+    const {at, kind, from} = snapIndicator, size = 6;
+    const oldColor = graphics.line.color, width = graphics.line.width;
+    graphics.lineStyle(1, 0xe0409a);
+    if (kind === 'point') {
+        graphics.drawRect(at.x - size, at.y - size, 2 * size, 2 * size);
+    } else if (kind === 'edge') {
+        graphics.drawPolygon([at.x, at.y - size, at.x + size, at.y, at.x, at.y + size, at.x - size, at.y, at.x, at.y - size]);
+    } else if (kind === 'angle') {
+        graphics.moveTo(from.x, from.y);
+        graphics.lineTo(at.x, at.y);
     }
-}
-
-function expand(pts: Point[], amount: number) {
-    pts = pickClockwiseOrder(pts);
-    const ptAt = (i: number) => pts[(i + pts.length) % pts.length];
-    const result = [];
-    for (let i = 0; i < pts.length; ++i) {
-        const pt = pts[i], prevPt = ptAt(i-1), nextPt = ptAt(i+1);
-        if (ptEq(pt, nextPt) || ptEq(prevPt, pt) || collinear(prevPt, pt, nextPt)) {
-            continue;
+    //and a cross for the grid (and the others)
+    graphics.moveTo(at.x - size, at.y - size);
+    graphics.lineTo(at.x + size, at.y + size);
+    graphics.moveTo(at.x + size, at.y - size);
+    graphics.lineTo(at.x - size, at.y + size);
+    graphics.lineStyle(width, oldColor);
+}
+
+function drawStroke() {
+    if (stroke != null && stroke.length > 1) {
+        graphics.moveTo(stroke[0].x, stroke[0].y);
+        for (let p of stroke.slice(1)) {
+            graphics.lineTo(p.x, p.y);
         }
-        const n1 = normal({start: prevPt, end: pt}), n2 = normal({start: pt, end: nextPt});
-
-        const prevPtExp = vec_plus(prevPt, vec_mult(n1, amount)), ptExp = vec_plus(pt, vec_mult(n1, amount)),
-            nextPtExp = vec_plus(nextPt, vec_mult(n2, amount));
-        const ptExp2 = vec_plus(pt, vec_mult(n2, amount));
-        const prevSegmentExp = {start: prevPtExp, end:  ptExp},
-            nextSegmentExp = {start: nextPtExp, end: ptExp2}; //start and end deliberately swapped here
-        const intersection = intersectSegments(prevSegmentExp, nextSegmentExp);
-        if (intersection == null) {
-            continue;
-        }
-        const {u} = intersection;
-        const newPt = vec_plus(prevSegmentExp.start, vec_mult(vec(prevSegmentExp.start, prevSegmentExp.end), u));
-        result.push(newPt);
     }
-    return result;
 }
 
-function collinear(p1: Point, p2: Point, p3: Point) {
-    return Math.abs((p2.y - p1.y)/(p2.x - p1.x) - (p3.y - p1.y)/(p3.x - p1.x)) <= 1e-6;
+function deleteAtIndex(pointset: Pointset, i: number) {
+    //Also delete control point(s)
+    const diffs = validDiffs(pointset.controlPointDiffs, pointset.points.length);
+    pointset.points.splice(i, 1);
+    pointset.controlPointDiffs = withRemovedPoint(diffs, i);
 }
 
-function* pairs<T>(items: T[]) {
-    for (let i = 0; i < items.length; ++i) {
-        for (let j = i + 1; j < items.length; ++j) {
-            yield [items[i], items[j]];
-        }
+function deleteAtIndices(pointset: Pointset, indices: number[]) {
+    const sortedIndices = [...indices].sort((i1, i2) => i2 - i1);
+    for (let i of sortedIndices) {
+        deleteAtIndex(pointset, i);
     }
 }
 
-function hasSelfIntersectingParts(pts: Point[]): boolean {
-    for (let [s1, s2] of pairs(segments(pts))) {
-        if (validIntersection(intersectSegments(s1, s2))) {
-            return true;
+function deleteSelected(label = "Delete points") {
+    if (selected.length > 0) {
+        const indicesByPointset = new Map<Pointset, number[]>();
+        for (let id of selected) {
+            const {pointset: ps, index: i} = findPointsetAndIndex(id);
+            indicesByPointset.set(ps, [...indicesByPointset.get(ps) ?? [], i]);
         }
+        doCommand(label, () => {
+            for (let [ps, indices] of indicesByPointset) {
+                deleteAtIndices(ps, indices);
+            }
+            allPointsets = removeEmpty(allPointsets);
+            selected = [];
+        });
     }
-    return false;
 }
 
-function removeSelfIntersectingParts(pts: Point[]): Point[] {
-    pts = pickClockwiseOrder(pts);
-    const result: Point[] = [];
-    const segs = segments(pts);
-    if (segs.length == 0) {
-        return pts;
+//Copies of the selected points as pointsets (with new ids) - the whole pointsets that are selected,
+//and every run of selected points of the others
+function selectionAsPointsets(): Pointset[] {
+    return selectedPointsets().flatMap(ps => {
+        const indices = ps.points.flatMap((p, i) => isSelected(p) ? [i] : []);
+        return indices.length === ps.points.length ? [ps] : runs(indices, ps.points.length).map(run => part(ps, run));
+    }).map(withNewIds);
+}
+
+//Adds the pointsets (moved by delta) as an undoable command, and selects them
+function addPointsets(label: string, pointsets: Pointset[], delta: Point) {
+    const points = allPoints(pointsets);
+    if (points.length == 0) {
+        return;
     }
-    result.push(segs[0].start);
-    for (let i = 0; i < segs.length; ++i) {
-        const closest = range(i + 1, segs.length - 1).map(j => {
-            return {index: j, intersection: intersectSegments(segs[i], segs[j]) };
-        }).filter(data => {return validIntersection(data.intersection); })
-        .reduce((d1, d2) => {
-            if (d1.index === -1) {
-                return d2;
-            }
-            const pt1 = getIntersectionPoint(d1.intersection, segs[i]),
-                pt2 = getIntersectionPoint(d2.intersection, segs[i]);
-            const distance1 = distanceSq(segs[i].start, pt1), distance2 = distanceSq(segs[i].start, pt2);
-            return distance1 < distance2 ? d1 : d2;
-        }, {index: -1, intersection: null});
-        if (closest.index !== -1) {
-            const pt = getIntersectionPoint(closest.intersection, segs[i]);
-            // drawPoint(segs[i].start, 4, PointType.DEBUG);
-            // drawPoint(pt, 4, PointType.DEBUG);
-            result.push(pt);
-            i = closest.index;
-        }
-        if (i < segs.length - 1) {
-            result.push(segs[i].end);
-        }
+    for (let p of points) {
+        p.x += delta.x;
+        p.y += delta.y;
     }
-    return result;
+    doCommand(label, () => {
+        allPointsets.push(...pointsets);
+        selected = points.map(p => p.id);
+    });
 }
 
-function range(start: number, end: number) {
-    let result = [];
-    for (let i = start; i <= end; ++i) {
-        result.push(i);
+//Centered on the mouse when it's over the 2D view, otherwise a bit off from where they were copied
+function paste(pointsets: Pointset[]) {
+    const copies = pointsets.map(withNewIds), points = allPoints(copies);
+    if (cursorCoords != null && points.length > 0) {
+        const box = getBoundingRect(points);
+        addPointsets("Paste", copies, { x: cursorCoords.x - (box.x + box.width / 2), y: cursorCoords.y - (box.y + box.height / 2) });
+    } else {
+        ++pasteCount;
+        addPointsets("Paste", copies, { x: pasteCount * pasteOffset, y: pasteCount * pasteOffset });
     }
-    return result;
 }
 
-function validIntersection(intersection: {u: number, v: number}) {
-    const eps = 1e-9;
-    return intersection != null && intersection.u >= -eps && intersection.u <= 1 + eps && intersection.v >= -eps && intersection.v <= 1 + eps &&
-        ((intersection.u > 0 && intersection.u < 1) || (intersection.v > 0 && intersection.v < 1));
+function duplicateSelected() {
+    addPointsets("Duplicate", selectionAsPointsets(), { x: pasteOffset, y: pasteOffset });
 }
 
-function getIntersectionPoint(intersection: {u: number, v: number}, segment1: Segment) {
-    return vec_plus(segment1.start, vec_mult(vec(segment1.start, segment1.end), intersection.u));
+function selectedPointsets(): Pointset[] {
+    return [...new Set(selected.map(id => findPointsetAndIndex(id)?.pointset).filter(ps => ps != null))];
 }
 
-function ensureLeftMargin(pts: Point[]) {
-    const closestLeft = Math.min(...pts.map(p => p.x));
-    let offset = 0;
-    if (closestLeft < horizontalBufferPx) {
-        offset = horizontalBufferPx - closestLeft;
-        //Do this instead of .map(...) + reassigning, because that screws up the selected marker
-        shiftPoints(pts, {x: offset, y: 0});
-
-        // console.log("Offset: ", offset, "content left: ", scrollbox.content.left);
-        // console.log("Content left: ", scrollbox.content.left);
+//Applies a change to the pointsets of the selected points as an undoable command
+function changeSelectedPointsets(label: string, change: (ps: Pointset) => void) {
+    const pointsets = selectedPointsets();
+    if (pointsets.length > 0) {
+        doCommand(label, () => pointsets.forEach(change));
     }
-
-    return offset;
 }
 
-function applyDiffs(pts: Point[], diffs: Point[]) {
-    return pts.map((p, i) => ({ x: p.x + diffs[i].x, y: p.y + diffs[i].y }));
+//Switches the pointsets of the selected points between being a plateau (outward) and a footprint (inward)
+function toggleContourDirection() {
+    changeSelectedPointsets("Toggle contour direction", ps => ps.contourDirection = isInward(ps) ? 'outward' : 'inward');
 }
 
-function repaintPointset(ps: Pointset) {
-    const points = ps.points;
-    if (points.length > 1) {
-        lines(points);
-    }
-
-    if (isDisplayingPoints()) {
-        for (let point of points) {
-            drawPoint(point, pointRadius, isSelected(point) ? PointType.SELECTED : PointType.REGULAR);
-        }
-    }
+function setupFileActions() {
+    $("#export-geojson").on("click", exportGeoJson);
+    $("#import-geojson").on("click", () => openTextFile(".geojson,.json", importGeoJson));
+    $("#export-svg").on("click", exportSvg);
+    $("#export-heightmap").on("click", exportHeightmap);
+    $("#export-model").on("click", exportModel);
 }
 
-function ptMinus(pt1: Point, pt2?: Point): Point {
-    if (pt2 == null) { return {x: -pt1.x, y: -pt1.y }; }
-    return {x: pt1.x - pt2.x, y: pt1.y - pt2.y };
+//The contours of the drawing as it is now - the ones on screen if they're up to date, otherwise the worker's next ones
+function currentContours(): Promise<Layer[]> {
+    requestOutdatedContours();
+    return latestContours();
 }
 
-function ptPlus(pt1: Point, pt2: Point): Point {
-    return {x: pt1.x + pt2.x, y: pt1.y + pt2.y };
+function exportFailed(e: Error) {
+    console.error(e);
+    window.alert("Couldn't export: " + e.message);
 }
 
-function addNewAtIndex(pointset: Pointset, coords: Point, i: number): Point {
-    const newPt = pt(coords.x, coords.y);
-    pointset.points.splice(i, 0, newPt);
-    return newPt;
+function exportSvg() {
+    const strokeWidth = Number($("#svg-stroke-width").val());
+    const options = {
+        strokeWidth: strokeWidth > 0 ? strokeWidth : 1,
+        fill: $("#svg-fill").prop("checked"),
+        includeBase: $("#svg-include-base").prop("checked"),
+        inwardBaseColor: inwardPointsetColor
+    };
+    currentContours()
+        .then(layers => downloadFile("topo-map.svg", toSvg(allPointsets, layers, options), "image/svg+xml"))
+        .catch(exportFailed);
 }
 
-function last<T>(arr: T[]): T {
-    if (arr.length == 0) {
-        return null;
+function exportHeightmap() {
+    const width = Number($("#heightmap-width").val()), bitDepth = Number($("#heightmap-bit-depth").val()) as 8 | 16;
+    if (!(width >= 1)) {
+        return;
     }
-    return arr[arr.length - 1];
-}
-
-function drag(point: Point, coords: Point) {
-    point.y = coords.y;
-    point.x = coords.x;
+    const options = {
+        width,
+        interpolation: $("#heightmap-interpolation").val() as HeightInterpolation,
+        interval: settings.contours.interval,
+        spacing: settings.contours.spacing,
+        heightScale: settings.heightScale
+    };
+    currentContours()
+        .then(layers => downloadFile("topo-map-heightmap.png", heightmapPng(rasterizeHeightmap(layers, options), bitDepth), "image/png"))
+        .catch(exportFailed);
 }
 
-function dragCp(i: number, i2: number, cps: Point[], point: Point, coords: Point) {
-    const {pointset: ps} = findPointsetAndIndex(point);
-    const newCp = coords;
-    ps.controlPointDiffs[i] = ptPlus(ps.controlPointDiffs[i], ptMinus(newCp, cps[i]));
-    if (i2 != null) {
-        const newCp2 = ptPlus(point, ptMinus(point, newCp));
-        ps.controlPointDiffs[i2] = ptPlus(ps.controlPointDiffs[i2], ptMinus(newCp2, cps[i2]));
+function exportModel() {
+    const scale = Number($("#model-scale").val()), verticalExaggeration = Number($("#model-exaggeration").val());
+    if (!(scale > 0) || !(verticalExaggeration > 0)) {
+        return;
     }
-}
-
-function deleteAtIndex(pointset: Pointset, i: number) {
-    pointset.points.splice(i, 1);
-
-    //Also delete control point(s)
-    const diffs = pointset.controlPointDiffs;
-    if (i < pointset.points.length - 1) { diffs.splice(2*i, 1); }
-    if (i > 0) { diffs.splice(2*i-1, 1); }
-}
-
-function deleteAtIndices(pointset: Pointset, indices: number[]) {
-    const sortedIndices = [...indices].sort((i1, i2) => i2 - i1);
-    for (let i of sortedIndices) {
-        deleteAtIndex(pointset, i);
+    const style = $("#model-style").val() as TerrainStyle, format = $("#model-format").val();
+    const options = { style, interval: settings.contours.interval, scale, verticalExaggeration };
+    currentContours().then(layers => {
+        const parts = terrainMesh(layers, options);
+        switch (format) {
+            case "glb":
+                //the terraces are open surfaces, so they need to be visible from below as well
+                downloadFile("topo-map.glb", toGlb(parts, style === "terraces"), "model/gltf-binary");
+                break;
+            case "obj":
+                downloadFile("topo-map.obj", toObj(parts), "model/obj");
+                break;
+            case "stl":
+                downloadFile("topo-map.stl", toStl(parts), "model/stl");
+                break;
+        }
+    }).catch(exportFailed);
+}
+
+function exportGeoJson() {
+    currentContours()
+        .then(layers => toGeoJson(allPointsets, layers, settings.contours.defaultElevation))
+        .then(json => downloadFile("topo-map.geojson", JSON.stringify(json), "application/geo+json"))
+        .catch(exportFailed);
+}
+
+//Adds the polygons in the file as new pointsets.
+//Files exported from here keep their coordinates, the others (e.g. real coastlines) get fit into the view
+function importGeoJson(text: string) {
+    let imported: Pointset[];
+    try {
+        const json = JSON.parse(text),
+            isOwnExport = json.type === "FeatureCollection" && json.features?.some((f: any) => f?.properties?.kind === "base");
+        const view = { x: horizontalBufferPx, y: 50, width: editorWidth - horizontalBufferPx - 50, height: editorHeight - 100 };
+        imported = fromGeoJson(json, { fitTo: isOwnExport ? null : view });
+    } catch (e) {
+        window.alert("Couldn't import the GeoJSON file: " + e.message);
+        return;
     }
+    doCommand("Import GeoJSON", () => allPointsets.push(...imported));
 }
 
-function deleteSelected() {
-    if (selected.length > 0) {
-        const pointInfos = selected.map(pt => {
-            let {pointset: ps, index: i} = findPointsetAndIndex(pt);
-            return [ps, pt, i]; //also need to point for the un-apply operation
-        }).reduce((res, [ps, pt, i]) => {
-            let existing = res.get(ps);
-            if (existing == null) {
-                res.set(ps, existing = []);
-            }
-            existing.push([pt, i]);
-            return res;
-        }, new Map());
-        //sorting the indices in asc order makes the inverse operation easier
-        // (no need to keep track of indices, just adding at the specified ones works fine)
-        for (let k of pointInfos.keys()) {
-            pointInfos.get(k).sort(([_, i1]: [Point, number], [_1, i2]: [Point, number]) => i1 - i2);
+function setupPointsetProperties() {
+    $("#elevation").on("change", function () {
+        const elevation = Number($(this).val());
+        if (!isNaN(elevation)) {
+            changeSelectedPointsets("Change elevation", ps => ps.elevation = elevation);
         }
-        const cmd = {
-            apply: () => {
-                for (let ps of pointInfos.keys()) {
-                    deleteAtIndices(ps, pointInfos.get(ps).map(([_, i]: [Point, number]) => i));
-                }
-                selected = [];
-            },
-            unapply: () => {
-                for (let ps of pointInfos.keys()) {
-                    for (let [pt, i] of pointInfos.get(ps)) {
-                        addNewAtIndex(ps, pt, i);
-                    }
-                }
-            }
+    });
+    $("#contour-direction").on("change", function () {
+        const direction = $(this).val() as ContourDirection;
+        changeSelectedPointsets("Change contour direction", ps => ps.contourDirection = direction);
+    });
+    $("#handle-mode").on("change", function () {
+        handleMode = $(this).val() as HandleMode;
+    });
+    $("#curve-type").on("change", function () {
+        const type = $(this).val() as CurveType;
+        changeSelectedPointsets("Change curve", ps => ps.curve = { ...ps.curve, type });
+    });
+    $("#curve-tension").on("change", function () {
+        const tension = Number($(this).val());
+        if (!isNaN(tension) && tension >= 0 && tension <= 1) {
+            changeSelectedPointsets("Change curve tension", ps => ps.curve = { type: 'cardinal', ...ps.curve, tension });
         }
-        doCommand(cmd);
-    }
+    });
+    $("#curve-alpha").on("change", function () {
+        const alpha = Number($(this).val());
+        if (!isNaN(alpha) && alpha >= 0 && alpha <= 1) {
+            changeSelectedPointsets("Change curve alpha", ps => ps.curve = { type: 'catmullRom', ...ps.curve, alpha });
+        }
+    });
 }
 
-function undo() {
-    if (undoStack.length > 0) {
-        let last = undoStack.pop();
-        last.unapply();
-        repaint();
+//Shows the properties of the first selected pointset
+function updatePointsetProperties() {
+    const ps = selectedPointsets()[0];
+    $("#pointset-properties input, #pointset-properties select").prop("disabled", ps == null);
+    $("#elevation").val(ps != null ? elevationOf(ps, settings.contours.defaultElevation) : "");
+    $("#contour-direction").val(ps != null && isInward(ps) ? "inward" : "outward");
+    const curve = ps?.curve ?? { type: 'linear' };
+    $("#curve-type").val(curve.type);
+    $("#curve-tension").val(curve.tension ?? defaultCurveTension).prop("disabled", curve.type !== 'cardinal');
+    $("#curve-alpha").val(curve.alpha ?? defaultCurveAlpha).prop("disabled", curve.type !== 'catmullRom');
+}
 
-        saveCurrentState();
-        redoStack.push(last);
-    }
+function undo() {
+    jumpInHistory(history.position - 1);
 }
 
 function redo() {
-    if (redoStack.length > 0) {
-        let last = redoStack.pop();
-        last.apply();
-        repaint();
+    jumpInHistory(history.position + 1);
+}
 
-        saveCurrentState();
-        undoStack.push(last);
+//Undoes or redoes everything up to the given position in the history
+function jumpInHistory(position: number) {
+    if (position < 0 || position > history.entries.length || position === history.position) {
+        return;
+    }
+    try {
+        jumpTo(history, allPointsets, position);
+    } catch (e) {
+        console.error(e);
+        window.alert(e.message + " - the history gets cleared");
+        history = emptyHistory();
     }
+    indexPoints();
+    //the points that are gone can't stay selected
+    selected = selected.filter(id => pointsById.has(id));
+    saveCurrentState(true);
+    repaint();
+    showHistory(history);
 }
 
-function doCommand(cmd: Command) {
-    cmd.apply();
-
-    undoStack.push(cmd);
-    //can only redo immediately after undo, otherwise the commands in there can be invalid
-    redoStack = [];
+//Runs a change of the pointsets and records it in the history as one undoable step
+function doCommand(label: string, change: () => void) {
+    const before = allPointsets.map(copyPointset);
+    change();
+    //part of the command, so that undoing it doesn't leave the other pointsets shifted
+    marginShift += ensureLeftMargin(allPoints());
+    //e.g. imported pointsets
+    assignIds(allPointsets);
+    record(history, label, operationsBetween(before, allPointsets));
+    indexPoints();
 
-    saveCurrentState();
+    saveCurrentState(true);
     repaint();
+    showHistory(history);
 }
 
-
 function registerKey(key: string, callback: (e: KeyboardEvent) => void, repeatable?: boolean) {
     keyCallbacks[key] = { callback: callback };
     if (repeatable) {
@@ -1281,7 +1402,15 @@ function registerKeyUp(key: string, callback: (e: KeyboardEvent) => void) {
     keyCallbacks[key].upCallback = callback;
 }
 
+//Typing into the property inputs shouldn't trigger the editor's shortcuts
+function isEditingText(e: KeyboardEvent) {
+    return e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement;
+}
+
 function onKeyDown(e: KeyboardEvent) {
+    if (isEditingText(e)) {
+        return;
+    }
     let state = keyState[e.key];
     if (state == null) {
         keyState[e.key] = state = { lastTriggered: 0 };
@@ -1298,6 +1427,9 @@ function onKeyDown(e: KeyboardEvent) {
 }
 
 function onKeyUp(e: KeyboardEvent) {
+    if (isEditingText(e)) {
+        return;
+    }
     const callbacks = keyCallbacks[e.key];
     if (callbacks) {
         //If it's a repeatable action, it would've been triggered on key down, no need again
@@ -1342,30 +1474,18 @@ function registerArrowMovement() {
     //make sure we copy everything
     const saveSelected = () => {
         if (keyboardDragged.length == 0) {
-            keyboardDragged = selected.map(pt => ({ ...pt }));
+            keyboardDragged = selectedPoints().map(pt => ({ ...pt }));
         }
     }
     const registerMoveCmd = () => {
-        const psi = selected.map(findPointsetAndIndex),
+        const points = selectedPoints(),
             fromCoords = keyboardDragged.map(x => ({ ...x })),
-            toCoords = selected.map(x => ({ ...x }));
+            toCoords = points.map(x => ({ ...x }));
         keyboardDragged = [];
 
-        const command = {
-            apply: () => {
-                for(let i = 0; i < psi.length; ++i) {
-                    const {pointset: ps, index: idx} = psi[i], point = ps.points[idx], to = toCoords[i];
-                    drag(point, to);
-                }
-            },
-            unapply: () => {
-                for(let i = 0; i < psi.length; ++i) {
-                    const {pointset: ps, index: idx} = psi[i], point = ps.points[idx], from = fromCoords[i];
-                    drag(point, from);
-                }
-            }
-        };
-        doCommand(command);
+        //back to the start, so that the command records the whole move
+        points.forEach((point, i) => drag(point, fromCoords[i]));
+        doCommand("Move points", () => points.forEach((point, i) => drag(point, toCoords[i])));
     }
 
     let keyData = [{key: "ArrowLeft", offset: {x: -moveAmount}},
@@ -1377,113 +1497,116 @@ function registerArrowMovement() {
         registerKey(keyInfo.key, e => {
             e.preventDefault();
             saveSelected();
-            shiftPoints(selected, keyInfo.offset);
+            shiftPoints(selectedPoints(), keyInfo.offset);
             repaint();
         }, true);
         registerKeyUp(keyInfo.key, _ => registerMoveCmd());
     }
 }
 
-function saveCurrentState() {
-    window.localStorage.setItem("recent", JSON.stringify(allPointsets));
-    window.localStorage.setItem("itemDate", new Date().toJSON());
+function applySettings(newSettings: Settings) {
+    settings = newSettings;
+    contoursOutdated = true;
+    showSettings(settings);
+    saveCurrentState();
+    repaint();
 }
 
-function loadState(items: Pointset[]) {
-    allPointsets = items;
-    //don't care about preserving selected item and undo/redo stack
-    //mainly because it's technically difficult
-    //- selected relies on equality of references, which would not be true when (de-)serializing
-    //- undo/redo stack are code and not data
-    selected = [];
-    undoStack = redoStack = [];
+function currentProject(): Project {
+    return createProject(projectName, allPointsets, settings);
 }
 
-function removeEmpty(pointsets: Pointset[]) {
-    return pointsets.filter(ps => ps.points.length > 0);
-}
-
-function loadStoredStateIfNotExpired() {
-    const dateStr = window.localStorage.getItem("itemDate");
-    if (dateStr != null) {
-        const savedDate = new Date(dateStr);
-        if (Date.now() - savedDate.getTime() <= 376 * 60 * 60 * 1000) { // 376 hours = 2 weeks
-            console.log("Loading existing..");
-            const items = removeEmpty(JSON.parse(window.localStorage.getItem("recent")));
-            loadState(items);
-        }
-    } else {
-        console.log("No saved state to load");
+//With the selection, and with the history only when it changed - it can get big, and selecting happens all the time
+function saveCurrentState(historyChanged = false) {
+    if (!loaded) {
+        return;
     }
+    const state = historyChanged ? { history, selection: selected } : { selection: selected };
+    saveProject(currentProject(), state).catch(e => console.error("Couldn't save the project", e));
 }
 
-function setupScene(scene: BABYLON.Scene) {
-    const width = 800, height = 600;
-    const offsetY = 1000;
-    const target = new BABYLON.Vector3(width/2, 0, height/2);
-    camera = new BABYLON.ArcRotateCamera("camera", 0, 0, offsetY, target, scene, true);
-    camera.upVector = new BABYLON.Vector3(0, 0, 1);
-    camera.position = new BABYLON.Vector3(width/2, offsetY, height/2);
-    camera.attachControl(canvas3dView, true);
-    scene.clearColor = BABYLON.Color4.FromColor3(BABYLON.Color3.White());
-
-    engine.runRenderLoop(() => scene.render());
+function setProjectName(name: string) {
+    projectName = name;
+    window.localStorage.setItem("currentProject", name);
+    $("#current-project").text(name);
 }
 
-function updateScene(layers: { curves: Curve[], color: number}[]) {
-    scene.meshes.filter(mesh => mesh.name.startsWith('curvemesh')).forEach(mesh => {
-        scene.removeMesh(mesh, true);
-        mesh.dispose(true, true);
-    });
-
-    const maxHeight = 200;
-    const heightStep = maxHeight / layers.length;
-    for (let i = 0; i < layers.length; ++i) {
-        const layer = layers[i];
-        for (let j = 0; j < layer.curves.length; ++j) {
-            const curve = layer.curves[j];
-            const color = BABYLON.Color3.FromInts(...getComponents(layer.color));
-            createMeshForCurve(curve, maxHeight - heightStep * i, `curvemesh-layer-${i}-curve-${j}`, color, scene);
+function openProject(project: Project) {
+    setProjectName(project.name);
+    loadState(removeEmpty(project.pointsets), project.settings);
+    showSettings(settings);
+    repaint();
+    showHistory(history);
+    loadEditorState(project.name).then(state => {
+        //unless there's already been a change (or another project got opened) in the meantime
+        if (projectName === project.name && history.entries.length == 0 && selected.length == 0) {
+            history = state.history;
+            selected = state.selection.filter(id => pointsById.has(id));
+            showHistory(history);
+            repaint();
         }
-    }
+    }, e => console.error("Couldn't load the history and selection", e));
 }
 
-function createMeshForCurve(curve: Curve, height: number, name: string, color: BABYLON.Color3, scene: BABYLON.Scene): BABYLON.Mesh[] {
-    if (curve.points.length <= 2 || curve.points.length * 2 - 2 !== curve.controlPoints.length) {
-        return [];
-    }
-    const result = [];
-    let curve3d: BABYLON.Curve3 = null;
-    for (let i = 0; i < curve.points.length - 1; ++i) {
-        const p0 = curve.points[i],
-            cp0 = curve.controlPoints[2*i],
-            cp1 = curve.controlPoints[2*i + 1],
-            p1 = curve.points[i + 1];
-        const toVector = (p: Point) => new BABYLON.Vector3(p.x, height, 600 - p.y);
-        const currentCurve = BABYLON.Curve3.CreateCubicBezier(toVector(p0), toVector(cp0), toVector(cp1), toVector(p1), 10);
-        if (i === 0) {
-            curve3d = currentCurve;
-        } else {
-            curve3d = curve3d.continue(currentCurve);
-        }
+function loadState(items: Pointset[], loadedSettings?: Partial<Settings>) {
+    allPointsets = items;
+    indexPoints();
+    settings = withDefaults(loadedSettings);
+    //the selection and history saved with the project get restored once they're loaded
+    selected = [];
+    history = emptyHistory();
+}
 
-    }
-    const curveMesh = BABYLON.MeshBuilder.CreatePolygon(name, {shape: curve3d.getPoints(), sideOrientation: BABYLON.Mesh.DOUBLESIDE}, scene, earcut);
-    const material = new BABYLON.StandardMaterial(name + 'material', scene);
-    const toHsv = color.toHSV();
-    const dampened = new BABYLON.Color3();
-    BABYLON.Color3.HSVtoRGBToRef(toHsv.r, toHsv.g * 0.4, toHsv.b * 1.05, dampened);
-    material.emissiveColor = dampened;
-    curveMesh.material = material;
-    curveMesh.translate(new BABYLON.Vector3(0, 1, 0), height);
-    result.push(curveMesh);
+function removeEmpty(pointsets: Pointset[]) {
+    return pointsets.filter(ps => ps.points.length > 0);
+}
 
-    const linesMesh = BABYLON.Mesh.CreateLines(name + '-lines', curve3d.getPoints(), scene);
-    linesMesh.color = color;
-    result.push(linesMesh);
-    return result;
+//Versions before the projects kept a single drawing in localStorage - it becomes a project of its own.
+//One that can't be read gets set aside under another key, so that it doesn't keep the projects from opening
+function migrateRecentState(): Promise<void> {
+    const recent = window.localStorage.getItem("recent");
+    if (recent == null) {
+        return Promise.resolve();
+    }
+    return listProjects().then(projects => {
+        let project: Project;
+        try {
+            project = parseProject(recent, uniqueName("Untitled", projects.map(p => p.name)));
+        } catch (e) {
+            console.error(e);
+            window.localStorage.setItem("recent-unreadable", recent);
+            window.localStorage.removeItem("recent");
+            window.localStorage.removeItem("itemDate");
+            window.alert("Couldn't read the drawing saved by an older version, it's kept as \"recent-unreadable\" in localStorage: " + e.message);
+            return;
+        }
+        return saveProject(project).then(() => {
+            window.localStorage.setItem("currentProject", project.name);
+            window.localStorage.removeItem("recent");
+            window.localStorage.removeItem("itemDate");
+        });
+    });
 }
 
-function getComponents(color: number): [number, number, number] {
-    return [(color & 0xff0000) >> 16, (color & 0x00ff00) >> 8, (color & 0x0000ff)];
+//Opens the project that was open last time, or the latest one
+function openLastProject() {
+    migrateRecentState()
+        .then(listProjects)
+        .then(projects => {
+            const lastName = window.localStorage.getItem("currentProject"),
+                last = projects.find(p => p.name === lastName) ?? projects[0];
+            if (last == null) {
+                console.log("No saved projects to load");
+                setProjectName(projectName);
+                return;
+            }
+            return loadProject(last.name).then(openProject);
+        })
+        .catch(e => {
+            console.error(e);
+            window.alert("Couldn't open the last project: " + e.message);
+            //the drawing starts over as a new project, rather than under a name that might be taken
+            return listProjects().then(projects => setProjectName(uniqueName("Untitled", projects.map(p => p.name))));
+        })
+        .then(() => loaded = true, e => console.error("Couldn't list the projects, nothing gets saved", e));
 }